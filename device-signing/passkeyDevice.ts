@@ -1,15 +1,15 @@
 import * as bip39 from 'bip39'
 import * as bitcoinjs from 'bitcoinjs-lib'
 import * as bitcoinMessage from 'bitcoinjs-message'
-import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
 import * as ethers from 'ethers'
 import { Wallet } from 'ethers'
 
 import {
   AuthenticationResponseJSON,
+  PublicKeyCredentialCreationOptionsJSON,
   PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
 } from '@simplewebauthn/types'
-import BIP32Factory from 'bip32'
 
 import { base64ToUtf8, utf8ToBase64 } from '@casa/common/src/lib/encodingUtils'
 
@@ -17,29 +17,159 @@ import COIN, { CoinType, ETH_COIN_TYPES } from './types/coin'
 import { extractSignaturesFromPsbt } from './utils/psbtUtils'
 import GnosisSafe from './gnosisSafe'
 import { PASSKEY_DEVICES } from './types/deviceTypes'
-import { readLargeBlob, writeLargeBlob } from './utils/passkeyUtils'
+import {
+  getBip322AddressType,
+  signBip322Message,
+  verifyBip322Message,
+} from './utils/bip322'
+import { decryptWithPrf, encryptWithPrf } from './utils/blobEncryption'
+import {
+  PasskeyBlobMetadata,
+  PasskeySeedScheme,
+  parseEnvelope,
+  serializeEnvelope,
+} from './utils/blobEnvelope'
+import {
+  AccountXpubRequest,
+  ETH_COIN_TYPE,
+  PasskeyAccountXpub,
+  deriveAccountXpub,
+  getAccountPath,
+  getRequestPath,
+  isSupportedKeyPathPurpose,
+} from './utils/descriptorUtils'
+import { getEthChainId, isEthTestnet } from './utils/ethChains'
+import {
+  SignedEthTransaction,
+  parseEthTransaction,
+} from './utils/ethTransaction'
+import { KeySession, withKeySession } from './utils/keySession'
+import {
+  BitcoinNetwork,
+  getBitcoinjsNetwork,
+  getCoinType,
+} from './utils/networkUtils'
+import {
+  PUBLIC_KEY_CREDENTIAL_TYPE,
+  PasskeyError,
+  PasskeyErrorCodes,
+  createRawCredential,
+  evaluatePrf,
+  isEmptyBlobError,
+  normalizeCredentialId,
+  readLargeBlob,
+  wipeLargeBlob,
+  writeLargeBlob,
+} from './utils/passkeyUtils'
+import {
+  assertMultisigChange,
+  assertRootChange,
+  isMultisigPsbt,
+} from './utils/psbtChange'
+import {
+  assertPsbtMatchesRoot,
+  parseSignablePsbt,
+  signEcdsaInputs,
+} from './utils/psbtValidation'
+import { describeSafeTransaction } from './utils/safeTransaction'
+import {
+  extractTaprootSignatures,
+  isTaprootInput,
+  signTaprootInputs,
+} from './utils/taprootSigning'
 import { ToSign } from './types/toSign'
+import { TypedDataPayload, parseTypedData } from './utils/typedData'
 import { adjustSignatureForPrefix } from './utils/misc'
 
 interface PasskeyDeviceXpubResponse {
-  xpub: string
+  xpub: string // purpose level, see `deriveXpub`
+  /**
+   * The account xpub with its key origin, for the server and external coordinators. Its
+   * derivation path and descriptor key describe this xpub, not the purpose level `xpub`.
+   */
+  accountXpub: PasskeyAccountXpub
   authenticationResponse: AuthenticationResponseJSON
   blobVersion: PasskeyBlobVersion
+  backup?: PasskeyBackupWriteResponse // only set when a backup credential was written
+}
+
+/**
+ * A second credential, on a separate physical key, that receives the same seed phrase as the
+ * primary credential during setup. Its options must be requested for its own credential ID.
+ */
+interface PasskeyBackupTarget {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  credentialId: string
+  prfSalt?: string
+}
+
+interface PasskeyBackupWriteResponse {
+  credentialId: string
+  authenticationResponse: AuthenticationResponseJSON
+}
+
+interface PasskeyBlobMigrationResponse extends PasskeyDeviceXpubResponse {
+  previousBlobVersion?: PasskeyBlobVersion // undefined for unversioned blobs
+  credentialId: string
+}
+
+interface PasskeyDeviceReplacementResponse extends PasskeyDeviceXpubResponse {
+  credentialId: string
+  previousCredentialId: string
+}
+
+interface PasskeyDeviceWipeResponse {
+  authenticationResponse: AuthenticationResponseJSON
+  credentialId: string
 }
 
 export enum PasskeyBlobVersion {
   V1 = 'V1',
+  V2 = 'V2',
+  V3 = 'V3',
 }
 
+interface DecodedSeedPhrase {
+  seedPhrase: string
+  version?: PasskeyBlobVersion
+  metadata?: PasskeyBlobMetadata // V3 and later only
+}
+
+/**
+ * BIP39 entropy in bits, for 12, 18 and 24 word seed phrases. 128 bits matches the
+ * `bip39.generateMnemonic()` default used before the strength was configurable.
+ */
+export type MnemonicStrength = 128 | 192 | 256
+
+export const SUPPORTED_MNEMONIC_STRENGTHS: MnemonicStrength[] = [128, 192, 256]
+
+const DEFAULT_MNEMONIC_STRENGTH: MnemonicStrength = 128
+
 const SEED_VERSION_DELIMITER = '.'
-const BLOB_VERSION_CURRENT = PasskeyBlobVersion.V1
+const BLOB_VERSION_CURRENT = PasskeyBlobVersion.V3
+
+interface SignMessageParams {
+  coin: CoinType
+  device?: PASSKEY_DEVICES
+  keyPathPurpose: number
+  keyPathPurposeIsHardened?: boolean
+  keyPathCoinType: number
+  keyPathAccount: number
+  message: string
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
+  network?: BitcoinNetwork
+  witnessScript?: string
+}
 
 interface SignTransactionParams {
   device: PASSKEY_DEVICES
   coin: CoinType
   authenticationOptions: PublicKeyCredentialRequestOptionsJSON
   psbt?: string // BTC only, verify in BTC transaction
-  safeAddress?: string // ETH only, address of the Gnosis Safe
+  safeAddress?: string // ETH only, address of the Gnosis Safe if any
+  safeVersion?: string // ETH only, version of the Gnosis Safe, see `hashSafeTransaction`
   keyPathAddress?: number // ETH only, address index
   toSign: ToSign
   keyPathPurpose: number
@@ -48,9 +178,71 @@ interface SignTransactionParams {
   keyPathAccount: number
   serverHost: string
   token: string
+  prfSalt?: string
+  passphrase?: string // never persisted, see `exportXpub`
+  masterFingerprint?: string // BTC only, hex encoded, checks the PSBT before the prompt
 }
 
-const bip32 = BIP32Factory(ecc)
+interface SignTypedDataParams {
+  typedData: TypedDataPayload
+  keyPathPurpose: number
+  keyPathPurposeIsHardened: boolean
+  keyPathCoinType: number
+  keyPathAccount: number
+  keyPathAddress?: number
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
+  expectedChainId: number // see `getEthChainId`
+}
+
+// Signs a request that was validated before the prompt, once the seed phrase is read
+type SessionSigner<T> = (session: KeySession) => Promise<T>
+
+export enum BatchSignKind {
+  TRANSACTION = 'TRANSACTION',
+  MESSAGE = 'MESSAGE', // health checks
+  TYPED_DATA = 'TYPED_DATA', // EIP-712, signed in place of the transaction
+}
+
+// Shared by every request of a batch, as the seed phrase is read once
+type BatchSessionParams = 'authenticationOptions' | 'prfSalt' | 'passphrase'
+
+/**
+ * A pending signature in a batch signing session, a transaction (BTC PSBT, ETH Safe or
+ * plain transaction), a message or EIP-712 typed data, signed as with `signTransaction`,
+ * `getSignedMessage` and `signTypedData`
+ */
+export type BatchSignRequest =
+  | {
+      kind: BatchSignKind.TRANSACTION
+      signatureId: string
+      params: Omit<SignTransactionParams, BatchSessionParams>
+    }
+  | {
+      kind: BatchSignKind.MESSAGE
+      signatureId: string
+      params: Omit<SignMessageParams, BatchSessionParams>
+    }
+  | {
+      kind: BatchSignKind.TYPED_DATA
+      signatureId: string
+      params: Omit<SignTypedDataParams, BatchSessionParams>
+    }
+
+// The outcome of each request of a batch, with either the signature or the error
+export interface BatchSignResult {
+  signatureId: string
+  signature?: string | string[] | SignedEthTransaction
+  error?: PasskeyError
+}
+
+// A batch request after validation, with its signer or the validation error
+interface PreparedBatchRequest {
+  signatureId: string
+  sign?: SessionSigner<string | string[] | SignedEthTransaction>
+  error?: PasskeyError
+}
 
 /**
  * Generates a random seed phrase, writes it to the device, and returns the xpub
@@ -60,11 +252,30 @@ const bip32 = BIP32Factory(ecc)
  * prior to calling this function.
  *
  * @param device, hardenedKeyPathPurpose information about how to
- * derive the xpub from a seed phrase
+ * derive the xpub from a seed phrase. Purpose 86 derives the xpub for taproot (BIP86)
+ * wallets, signed with `signTaprootInputs`.
  *
  * @param authenticationOptions, credentialId information about storing
  * the seed phrase, from calls to POST /passkey, then POST /passkey/getCreateOptions
  *
+ * @param prfSalt the credential's PRF salt, if the credential supports the PRF extension. When
+ * present, the seed phrase is encrypted with the PRF output, which requires an additional
+ * prompt before the write.
+ *
+ * @param network the bitcoin network the xpub is serialized for, mainnet by default. Test
+ * networks produce `tpub` keys and use coin type 1 in the key origin.
+ *
+ * @param coin the coin of the device's wallet, bitcoin by default. Ethereum devices use coin
+ * type 60 in the key origin on every network.
+ *
+ * @param mnemonicStrength the entropy of the generated seed phrase in bits, 128 by default
+ *
+ * @param passphrase an optional BIP39 passphrase, never stored. Only its use is recorded in the
+ * blob metadata, so a missing or wrong passphrase is detected instead of deriving another wallet.
+ *
+ * @param backup an optional second credential on a separate key. The same seed phrase is
+ * written to it after the primary credential, so setup leaves the user with a tested backup key.
+ *
  * Analogous to `exportXpub` in `/packages/device-signing/src/signingDevice.ts`
  *
  * @warning If this function changes the method of seed phrase generation or encoding,
@@ -74,9 +285,24 @@ const bip32 = BIP32Factory(ecc)
 export async function exportXpub(params: {
   device?: PASSKEY_DEVICES
   hardenedKeyPathPurpose?: number | null
+  network?: BitcoinNetwork
+  coin?: CoinType
   authenticationOptions: PublicKeyCredentialRequestOptionsJSON
   credentialId: string
+  prfSalt?: string
+  passphrase?: string
+  mnemonicStrength?: MnemonicStrength
+  backup?: PasskeyBackupTarget
 }): Promise<PasskeyDeviceXpubResponse> {
+  const mnemonicStrength = params.mnemonicStrength ?? DEFAULT_MNEMONIC_STRENGTH
+
+  if (!SUPPORTED_MNEMONIC_STRENGTHS.includes(mnemonicStrength)) {
+    throw new PasskeyError(
+      `Unsupported mnemonic strength ${mnemonicStrength}`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
   /**
    * This function generates a mnemonic (seed phrase) based on the BIP39 standard. This function does
    * not require an external entropy source because it internally uses a cryptographically secure random
@@ -89,45 +315,621 @@ export async function exportXpub(params: {
    * @see /tests/mnemonicGeneration.test.ts for a test that generates mnemonics and checks for word
    * frequency distribution with a chi-squared test.
    */
-  const seedPhrase = bip39.generateMnemonic()
+  const seedPhrase = bip39.generateMnemonic(mnemonicStrength)
+
+  return writeSeedPhrase({ ...params, seedPhrase })
+}
+
+/**
+ * Validates a user-supplied seed phrase, writes it to the device, and returns the xpub
+ * according to the given parameters. Used to restore an existing wallet onto a new passkey,
+ * e.g. after losing a key or when moving from another hardware wallet.
+ *
+ * Takes the same parameters as `exportXpub`, with the seed phrase in place of the
+ * mnemonic strength. The seed phrase is validated before any prompt is shown.
+ */
+export async function importSeedPhrase(params: {
+  seedPhrase: string
+  hardenedKeyPathPurpose?: number | null
+  network?: BitcoinNetwork
+  coin?: CoinType
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  credentialId: string
+  prfSalt?: string
+  passphrase?: string
+  backup?: PasskeyBackupTarget
+}): Promise<PasskeyDeviceXpubResponse> {
+  const seedPhrase = normalizeSeedPhrase(params.seedPhrase)
+
+  if (!isValidSeedPhrase(seedPhrase)) {
+    throw new PasskeyError(
+      'Invalid seed phrase',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  return writeSeedPhrase({ ...params, seedPhrase })
+}
+
+/**
+ * Encodes and writes a seed phrase to the passkey largeBlob, evaluating the PRF first when the
+ * credential supports it, and returns the xpub for the written seed phrase.
+ *
+ * When a backup credential is given, the seed phrase is written to it after the primary
+ * credential. Each write is confirmed by the authenticator through `largeBlob.written`, so a
+ * resolved promise means both keys hold the seed phrase.
+ */
+async function writeSeedPhrase(params: {
+  seedPhrase: string
+  hardenedKeyPathPurpose?: number | null
+  network?: BitcoinNetwork
+  coin?: CoinType
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  credentialId: string
+  prfSalt?: string
+  passphrase?: string
+  backup?: PasskeyBackupTarget
+}): Promise<PasskeyDeviceXpubResponse> {
+  const { backup } = params
+
+  // Both credentials on the same key would leave the user without a backup
+  if (
+    backup != null &&
+    normalizeCredentialId(backup.credentialId) ===
+      normalizeCredentialId(params.credentialId)
+  ) {
+    throw new PasskeyError(
+      'Backup credential must differ from the primary credential',
+      PasskeyErrorCodes.DUPLICATE,
+    )
+  }
+
+  const blobVersion = BLOB_VERSION_CURRENT
+
+  const { authenticationResponse } = await writeEncodedSeedPhrase({
+    ...params,
+    blobVersion,
+  })
+
+  let backupResponse: PasskeyBackupWriteResponse | undefined
+
+  if (backup != null) {
+    const backupWrite = await writeEncodedSeedPhrase({
+      ...backup,
+      seedPhrase: params.seedPhrase,
+      hardenedKeyPathPurpose: params.hardenedKeyPathPurpose,
+      passphrase: params.passphrase,
+      blobVersion,
+    })
+
+    backupResponse = {
+      credentialId: backup.credentialId,
+      authenticationResponse: backupWrite.authenticationResponse,
+    }
+  }
+
+  return {
+    ...withSeedPhraseSession(params.seedPhrase, params.passphrase, (session) =>
+      deriveWalletXpubs(session, params.hardenedKeyPathPurpose, {
+        network: params.network,
+        coin: params.coin,
+      }),
+    ),
+    authenticationResponse,
+    blobVersion,
+    backup: backupResponse,
+  }
+}
+
+/**
+ * Encodes and writes a seed phrase to a single credential. A PRF output is specific to its
+ * credential, so encrypted blobs are encoded separately for each credential written.
+ */
+async function writeEncodedSeedPhrase(params: {
+  seedPhrase: string
+  blobVersion: PasskeyBlobVersion
+  hardenedKeyPathPurpose?: number | null
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  credentialId: string
+  prfSalt?: string
+  passphrase?: string
+}): Promise<{ authenticationResponse: AuthenticationResponseJSON }> {
+  // Evaluate the PRF first, the encryption key must exist before the blob can be written
+  const prf =
+    params.prfSalt != null
+      ? await evaluatePrf({
+          options: params.authenticationOptions,
+          credentialId: params.credentialId,
+          prfSalt: params.prfSalt,
+        })
+      : undefined
 
   // Version encode the seed phrase
-  const blob = encodeSeedPhrase({
-    seedPhrase,
-    blobVersion: BLOB_VERSION_CURRENT,
+  const blob = await encodeSeedPhrase({
+    seedPhrase: params.seedPhrase,
+    blobVersion: params.blobVersion,
+    prf,
+    hardenedKeyPathPurpose: params.hardenedKeyPathPurpose,
+    passphrase: params.passphrase,
   })
 
   // save to largeblob with passkey
-  const { authenticationResponse } = await writeLargeBlob({
+  return writeLargeBlob({
     options: params.authenticationOptions,
     credentialId: params.credentialId,
     blob,
   })
+}
+
+// Word counts accepted when importing, every length defined by BIP39
+export const SUPPORTED_IMPORT_WORD_COUNTS = [12, 15, 18, 21, 24]
+
+/**
+ * Normalizes user input to the form bip39 expects: NFKD, lowercase, single spaces, so
+ * pasted or hand-typed phrases with stray whitespace or capitalization still validate.
+ */
+export function normalizeSeedPhrase(seedPhrase: string): string {
+  return seedPhrase
+    .normalize('NFKD')
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .join(' ')
+}
+
+/**
+ * Per-word and checksum feedback for seed phrase entry, without revealing anything about
+ * which word is wrong beyond membership in the BIP39 English wordlist.
+ */
+export function validateSeedPhraseWords(words: string[]): {
+  invalidWordIndexes: number[]
+  isComplete: boolean
+  isChecksumValid: boolean
+} {
+  const wordlist = bip39.wordlists.english
+  const normalizedWords = words.map((word) => normalizeSeedPhrase(word))
+
+  const invalidWordIndexes = normalizedWords.reduce<number[]>(
+    (indexes, word, index) =>
+      word !== '' && !wordlist.includes(word) ? [...indexes, index] : indexes,
+    [],
+  )
+
+  const isComplete =
+    SUPPORTED_IMPORT_WORD_COUNTS.includes(normalizedWords.length) &&
+    normalizedWords.every((word) => word !== '')
+
+  return {
+    invalidWordIndexes,
+    isComplete,
+    isChecksumValid:
+      isComplete &&
+      invalidWordIndexes.length === 0 &&
+      isValidSeedPhrase(normalizedWords.join(' ')),
+  }
+}
+
+/**
+ * Runs a derivation on a seed phrase that is not read for signing, e.g. to export xpubs or
+ * compare fingerprints, in a key session that is disposed before returning.
+ */
+function withSeedPhraseSession<T>(
+  seedPhrase: string,
+  passphrase: string | undefined,
+  use: (session: KeySession) => T,
+): T {
+  const session = KeySession.fromSeedPhrase(seedPhrase, passphrase)
+
+  try {
+    return use(session)
+  } finally {
+    session.dispose()
+  }
+}
+
+/**
+ * The purpose level xpub stored by the server, and the account xpub with its key origin,
+ * both derived from the same session so the response describes a single wallet.
+ */
+function deriveWalletXpubs(
+  session: KeySession,
+  hardenedKeyPathPurpose: number | null | undefined,
+  { network, coin }: { network?: BitcoinNetwork; coin?: CoinType },
+): { xpub: string; accountXpub: PasskeyAccountXpub } {
+  return {
+    xpub: deriveXpub(session, hardenedKeyPathPurpose, network),
+    accountXpub: deriveAccountXpub(
+      session,
+      getAccountPath({
+        hardenedKeyPathPurpose,
+        // Ethereum accounts use their own coin type, as in the batch export
+        coinType:
+          coin != null && ETH_COIN_TYPES.includes(coin)
+            ? ETH_COIN_TYPE
+            : getCoinType(network),
+      }),
+      getBitcoinjsNetwork(network),
+    ),
+  }
+}
+
+function deriveXpub(
+  session: KeySession,
+  hardenedKeyPathPurpose?: number | null,
+  network?: BitcoinNetwork,
+): string {
+  const bitcoinjsNetwork = getBitcoinjsNetwork(network)
+
+  // Without a key path purpose, use the original xpub
+  if (!hardenedKeyPathPurpose) {
+    return session.getRoot(bitcoinjsNetwork).neutered().toBase58()
+  }
+
+  /**
+   * With a key path purpose, derive a new xpub from the hardened key path from the first node,
+   * The apostrophe at the end is critical to indicate a hardened key path
+   *
+   * Taproot (purpose 86) xpubs use the same serialization, the script type is implied by
+   * the purpose rather than by the version bytes as with ypubs or zpubs.
+   */
+  const derivedNode = session.derivePath(
+    `m/${hardenedKeyPathPurpose}'`,
+    bitcoinjsNetwork,
+  )
+  return derivedNode.neutered().toBase58()
+}
+
+/**
+ * Re-encodes the seed phrase on a device holding an unversioned or outdated blob with
+ * `BLOB_VERSION_CURRENT`. Reading and writing a largeBlob are separate authentication
+ * ceremonies, so the user is prompted to read, write, and read back, in that order.
+ *
+ * @param authenticationOptions, options to READ the existing blob, generated with a call
+ * to POST /passkey/getSignOptions
+ *
+ * @param getWriteOptions, called with the credentialId used in the read ceremony, returns the
+ * options to WRITE the new blob, generated with a call to POST /passkey/getAuthOptions
+ *
+ * @param hardenedKeyPathPurpose, the device's key path purpose, used to compare xpubs and
+ * recorded in the new blob's metadata when the existing blob does not hold one
+ *
+ * @param network, coin the bitcoin network the returned xpub is serialized for, and the coin
+ * of the device's wallet, see `exportXpub`
+ *
+ * @param passphrase, the BIP39 passphrase if the wallet uses one. Blobs older than V3 cannot
+ * record a passphrase, so only wallets without one can be migrated from them.
+ *
+ * The new blob is decoded and its xpub compared with the existing one before anything is
+ * written, so a faulty re-encoding never replaces a working blob. The written blob is then
+ * read back from the device, so a truncated or failed write is not reported as migrated.
+ */
+export async function migrateBlob(params: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  getWriteOptions: (
+    credentialId: string,
+  ) => Promise<PublicKeyCredentialRequestOptionsJSON>
+  hardenedKeyPathPurpose?: number | null
+  network?: BitcoinNetwork
+  coin?: CoinType
+  prfSalt?: string
+  passphrase?: string
+}): Promise<PasskeyBlobMigrationResponse> {
+  const { blob, prf, credentialId } = await readLargeBlob({
+    options: params.authenticationOptions,
+    prfSalt: params.prfSalt,
+  })
+
+  const { seedPhrase, version, metadata } = await decodeSeedPhrase(blob, {
+    prf,
+    passphrase: params.passphrase,
+  })
+
+  if (version === BLOB_VERSION_CURRENT) {
+    throw new PasskeyError(
+      'Large blob is already at the current version',
+      PasskeyErrorCodes.INCORRECT_STATE,
+      { blobVersion: version },
+    )
+  }
+
+  const hardenedKeyPathPurpose =
+    metadata?.hardenedKeyPathPurpose ?? params.hardenedKeyPathPurpose
+
+  const previousXpub = withSeedPhraseSession(
+    seedPhrase,
+    params.passphrase,
+    (session) => deriveXpub(session, hardenedKeyPathPurpose, params.network),
+  )
+
+  /**
+   * The PRF output depends only on the credential and the salt, so the output from the read
+   * ceremony is the same key a later read will evaluate, and no extra prompt is needed
+   */
+  const migratedBlob = await encodeSeedPhrase({
+    seedPhrase,
+    blobVersion: BLOB_VERSION_CURRENT,
+    prf,
+    hardenedKeyPathPurpose,
+    passphrase: params.passphrase,
+  })
+
+  const { seedPhrase: migratedSeedPhrase } = await decodeSeedPhrase(
+    migratedBlob,
+    { prf, passphrase: params.passphrase },
+  )
+
+  if (
+    withSeedPhraseSession(migratedSeedPhrase, params.passphrase, (session) =>
+      deriveXpub(session, hardenedKeyPathPurpose, params.network),
+    ) !== previousXpub
+  ) {
+    throw new PasskeyError(
+      'Migrated blob does not derive the same xpub',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  const writeOptions = await params.getWriteOptions(credentialId)
+
+  const { authenticationResponse } = await writeLargeBlob({
+    options: writeOptions,
+    credentialId,
+    blob: migratedBlob,
+  })
+
+  /**
+   * Read back from the migrated device. The assertion is never sent to the server, so the
+   * write options are reused rather than requesting new ones.
+   */
+  const { seedPhrase: storedSeedPhrase, version: storedVersion } =
+    await readSeedPhrase({
+      authenticationOptions: {
+        ...writeOptions,
+        allowCredentials: [
+          {
+            id: credentialId,
+            type: PUBLIC_KEY_CREDENTIAL_TYPE,
+          },
+        ],
+      },
+      prfSalt: params.prfSalt,
+      passphrase: params.passphrase,
+    })
+
+  const { xpub, accountXpub } = withSeedPhraseSession(
+    storedSeedPhrase,
+    params.passphrase,
+    (session) =>
+      deriveWalletXpubs(session, hardenedKeyPathPurpose, {
+        network: params.network,
+        coin: params.coin,
+      }),
+  )
+
+  if (storedVersion !== BLOB_VERSION_CURRENT || xpub !== previousXpub) {
+    throw new PasskeyError(
+      'Migrated device does not hold the migrated blob',
+      PasskeyErrorCodes.FAILED_WRITE,
+      { blobVersion: storedVersion },
+    )
+  }
+
+  return {
+    xpub,
+    accountXpub,
+    authenticationResponse,
+    blobVersion: BLOB_VERSION_CURRENT,
+    previousBlobVersion: version,
+    credentialId,
+  }
+}
+
+/**
+ * Moves a wallet from one passkey device to another without exposing the seed phrase to the
+ * user. The seed phrase is read from the existing credential, a new credential is registered
+ * on the replacement device, the seed phrase is written to it, and it is read back to confirm
+ * both devices derive the same xpub.
+ *
+ * @param authenticationOptions, options to READ the existing credential's blob, generated with
+ * a call to POST /passkey/getSignOptions
+ *
+ * @param creationOptions, attestation options for the replacement credential, generated with a
+ * call to GET /passkey/getCreateOptions
+ *
+ * @param onCredentialCreated, called with the registration response of the replacement
+ * credential, stores it and returns the options to WRITE to it
+ *
+ * The user is prompted to read the existing device, register the replacement, evaluate its
+ * PRF if supported, write, and read back, in that order.
+ */
+export async function replaceDevice(params: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  creationOptions: PublicKeyCredentialCreationOptionsJSON
+  onCredentialCreated: (
+    registrationResponse: RegistrationResponseJSON,
+  ) => Promise<{
+    credentialId: string
+    authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+    prfSalt?: string
+  }>
+  hardenedKeyPathPurpose?: number | null
+  network?: BitcoinNetwork
+  coin?: CoinType
+  prfSalt?: string
+  passphrase?: string
+}): Promise<PasskeyDeviceReplacementResponse> {
+  const {
+    blob,
+    prf,
+    credentialId: previousCredentialId,
+  } = await readLargeBlob({
+    options: params.authenticationOptions,
+    prfSalt: params.prfSalt,
+  })
+
+  const { seedPhrase, metadata } = await decodeSeedPhrase(blob, {
+    prf,
+    passphrase: params.passphrase,
+  })
+
+  const hardenedKeyPathPurpose =
+    metadata?.hardenedKeyPathPurpose ?? params.hardenedKeyPathPurpose
+
+  const previousXpub = withSeedPhraseSession(
+    seedPhrase,
+    params.passphrase,
+    (session) => deriveXpub(session, hardenedKeyPathPurpose, params.network),
+  )
+
+  const registrationResponse = await createRawCredential(params.creationOptions)
+
+  const replacement = await params.onCredentialCreated(registrationResponse)
+
+  if (
+    normalizeCredentialId(replacement.credentialId) ===
+    normalizeCredentialId(previousCredentialId)
+  ) {
+    throw new PasskeyError(
+      'Replacement credential matches the existing credential',
+      PasskeyErrorCodes.DUPLICATE,
+    )
+  }
+
+  const { authenticationResponse, blobVersion } = await writeSeedPhrase({
+    seedPhrase,
+    hardenedKeyPathPurpose,
+    authenticationOptions: replacement.authenticationOptions,
+    credentialId: replacement.credentialId,
+    prfSalt: replacement.prfSalt,
+    passphrase: params.passphrase,
+  })
+
+  /**
+   * Read back from the replacement device. The assertion is never sent to the server, so the
+   * write options are reused rather than requesting new ones.
+   */
+  const { seedPhrase: replacementSeedPhrase } = await readSeedPhrase({
+    authenticationOptions: {
+      ...replacement.authenticationOptions,
+      allowCredentials: [
+        {
+          id: replacement.credentialId,
+          type: PUBLIC_KEY_CREDENTIAL_TYPE,
+        },
+      ],
+    },
+    prfSalt: replacement.prfSalt,
+    passphrase: params.passphrase,
+  })
+
+  const { xpub, accountXpub } = withSeedPhraseSession(
+    replacementSeedPhrase,
+    params.passphrase,
+    (session) =>
+      deriveWalletXpubs(session, hardenedKeyPathPurpose, {
+        network: params.network,
+        coin: params.coin,
+      }),
+  )
+
+  if (xpub !== previousXpub) {
+    throw new PasskeyError(
+      'Replacement device does not derive the same xpub',
+      PasskeyErrorCodes.FAILED_WRITE,
+    )
+  }
+
+  return {
+    xpub,
+    accountXpub,
+    authenticationResponse,
+    blobVersion,
+    credentialId: replacement.credentialId,
+    previousCredentialId,
+  }
+}
+
+/**
+ * Clears the seed phrase from a device that is removed or replaced, so a retired key no
+ * longer holds spendable key material. Takes three prompts: a read to confirm the key holds
+ * a seed phrase and to identify its credential, the wipe, and a read to confirm the wipe.
+ *
+ * @param authenticationOptions options to READ the device, restricted to the retired
+ * credential when another key for the same wallet is still in use
+ *
+ * @param getWriteOptions requests options to WRITE to the credential identified by the read
+ *
+ * @param retiredCredentialId the credential retired by a replacement. The read must identify
+ * it, so the key that replaced it cannot be wiped by mistake.
+ *
+ * @param confirmActiveKey confirms the wipe of a credential that is not retired and may still
+ * be registered as the wallet's key, required when no retired credential is given
+ */
+export async function wipeDevice(params: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  getWriteOptions: (
+    credentialId: string,
+  ) => Promise<PublicKeyCredentialRequestOptionsJSON>
+  retiredCredentialId?: string
+  confirmActiveKey?: boolean
+}): Promise<PasskeyDeviceWipeResponse> {
+  if (params.retiredCredentialId == null && params.confirmActiveKey !== true) {
+    throw new PasskeyError(
+      'Wiping a key that is not retired must be confirmed',
+      PasskeyErrorCodes.INCORRECT_STATE,
+    )
+  }
+
+  const { credentialId } = await readLargeBlob({
+    options: params.authenticationOptions,
+  })
 
-  const seed = bip39.mnemonicToSeedSync(seedPhrase)
-  const node = bip32.fromSeed(seed)
-
-  // Without a key path purpose, use the original xpub
-  if (!params.hardenedKeyPathPurpose) {
-    return {
-      xpub: node.neutered().toBase58(),
-      authenticationResponse,
-      blobVersion: BLOB_VERSION_CURRENT,
-    }
+  if (
+    params.retiredCredentialId != null &&
+    normalizeCredentialId(credentialId) !==
+      normalizeCredentialId(params.retiredCredentialId)
+  ) {
+    throw new PasskeyError(
+      'Read credential is not the retired credential',
+      PasskeyErrorCodes.WRONG_DEVICE,
+    )
   }
 
+  const writeOptions = await params.getWriteOptions(credentialId)
+
+  const { authenticationResponse } = await wipeLargeBlob({
+    options: writeOptions,
+    credentialId,
+  })
+
   /**
-   * With a key path purpose, derive a new xpub from the hardened key path from the first node,
-   * The apostrophe at the end is critical to indicate a hardened key path
+   * Read back from the wiped device. The assertion is never sent to the server, so the
+   * write options are reused rather than requesting new ones.
    */
-  const derivedNode = node.derivePath(`m/${params.hardenedKeyPathPurpose}'`)
-  const xpub = derivedNode.neutered().toBase58()
+  try {
+    await readLargeBlob({
+      options: {
+        ...writeOptions,
+        allowCredentials: [
+          {
+            id: credentialId,
+            type: PUBLIC_KEY_CREDENTIAL_TYPE,
+          },
+        ],
+      },
+    })
+  } catch (error) {
+    if (isEmptyBlobError(error)) {
+      return { authenticationResponse, credentialId }
+    }
 
-  return {
-    xpub,
-    authenticationResponse,
-    blobVersion: BLOB_VERSION_CURRENT,
+    throw error
   }
+
+  throw new PasskeyError(
+    'Large blob still holds data after wipe',
+    PasskeyErrorCodes.FAILED_WRITE,
+  )
 }
 
 /**
@@ -141,37 +943,42 @@ export async function exportXpub(params: {
  * and transport types to access the passkey-held seed phrase, generated
  * with a call to POST /passkey/getSignOptions
  *
+ * @param witnessScript hex encoded multisig script of the address, for BIP322 signatures
+ * of multisig accounts. Without it, multisig accounts sign legacy messages.
+ *
+ * BTC accounts with purpose 84, 86, or 48 with a witness script, sign with BIP322 and the
+ * signature is verified locally before it is returned. Other accounts sign legacy messages
+ * with `bitcoinjs-message`.
+ *
  * Analogous to `getSignedMessage` in `/packages/device-signing/src/signingDevice.ts`
  */
-export async function getSignedMessage({
-  coin,
-  keyPathPurpose,
-  keyPathPurposeIsHardened,
-  keyPathCoinType,
-  keyPathAccount,
-  message,
-  authenticationOptions,
-}: {
-  coin: CoinType
-  device?: PASSKEY_DEVICES
-  keyPathPurpose: number
-  keyPathPurposeIsHardened?: boolean
-  keyPathCoinType: number
-  keyPathAccount: number
-  message: string
-  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
-}): Promise<string> {
-  const isEth = ETH_COIN_TYPES.includes(coin)
+export async function getSignedMessage(
+  params: SignMessageParams,
+): Promise<string> {
+  const session = await readKeySession(params)
 
-  const encodedBlob = await readLargeBlob({
-    options: authenticationOptions,
-  })
+  return withKeySession(session, () => signMessageWithSession(session, params))
+}
 
-  const { seedPhrase } = decodeSeedPhrase(encodedBlob)
+// Signs a message with the key session of a seed phrase read before, see `getSignedMessage`
+async function signMessageWithSession(
+  session: KeySession,
+  {
+    coin,
+    keyPathPurpose,
+    keyPathPurposeIsHardened,
+    keyPathCoinType,
+    keyPathAccount,
+    message,
+    network,
+    witnessScript,
+  }: SignMessageParams,
+): Promise<string> {
+  const isEth = ETH_COIN_TYPES.includes(coin)
 
   if (isEth) {
-    const signer = ethSignerFromSeedAndPath(
-      seedPhrase,
+    const signer = ethSignerFromSession(
+      session,
       keyPathPurpose,
       keyPathPurposeIsHardened === true,
       keyPathCoinType,
@@ -188,9 +995,47 @@ export async function getSignedMessage({
   const change = '0'
   const address = '0'
   const path = `m/${purpose}/${keyPathCoinType}/${keyPathAccount}/${change}/${address}`
-  const seed = bip39.mnemonicToSeedSync(seedPhrase)
-  const masterNode = bip32.fromSeed(seed)
-  const derivedNode = masterNode.derivePath(path)
+
+  const addressType = getBip322AddressType(
+    keyPathPurpose,
+    witnessScript != null,
+  )
+
+  if (addressType != null) {
+    const bitcoinjsNetwork = getBitcoinjsNetwork(network)
+
+    const { address, signature } = signBip322Message({
+      message,
+      session,
+      path,
+      addressType,
+      witnessScript:
+        witnessScript != null ? Buffer.from(witnessScript, 'hex') : undefined,
+      network: bitcoinjsNetwork,
+    })
+
+    // Multisig signatures are partial until combined with the cosigners' signatures
+    const isVerifiable = witnessScript == null
+
+    if (
+      isVerifiable &&
+      !verifyBip322Message({
+        message,
+        address,
+        signature,
+        network: bitcoinjsNetwork,
+      })
+    ) {
+      throw new PasskeyError(
+        'BIP322 signature does not verify',
+        PasskeyErrorCodes.INCORRECT_STATE,
+      )
+    }
+
+    return signature
+  }
+
+  const derivedNode = session.derivePath(path)
 
   return bitcoinMessage
     .sign(message, derivedNode.privateKey!)
@@ -207,24 +1052,133 @@ export async function getSignedMessage({
  * and transport types to access the passkey-held seed phrase, generated
  * with a call to POST /passkey/getSignOptions
  *
+ * ETH accounts sign a Gnosis Safe transaction hash when a `safeAddress` is given, and
+ * otherwise sign the transaction itself, returning the raw transaction and its hash.
+ *
  * Analogous to `signTransaction` in `/packages/device-signing/src/signingDevice.ts`
  */
 export async function signTransaction(
   params: SignTransactionParams,
-): Promise<string | string[]> {
+): Promise<string | string[] | SignedEthTransaction> {
+  const sign = await prepareTransaction(params)
+
+  return withKeySession(await readKeySession(params), sign)
+}
+
+/**
+ * Validates a transaction before the passkey prompt, and returns the signer to call with
+ * the key session once the seed phrase is read, so a batch can validate every request before its
+ * single prompt.
+ */
+async function prepareTransaction(
+  params: SignTransactionParams,
+): Promise<SessionSigner<string | string[] | SignedEthTransaction>> {
   switch (params.coin.toUpperCase()) {
     case COIN.btc:
     case COIN.tbtc:
-      return await getSignedBitcoinTransaction(params)
+      return prepareBitcoinTransaction(params)
     case COIN.ethC:
     case COIN.tethC:
     case COIN.eth:
     case COIN.teth:
-      return await getGnosisSafeSignature(params)
+      return params.safeAddress != null
+        ? await prepareGnosisSafeSignature(params)
+        : prepareEthTransaction(params)
   }
   throw new Error()
 }
 
+/**
+ * Signs several pending signatures, e.g. health checks and transactions of different
+ * coins, with a single read of the seed phrase, so the key is tapped once.
+ *
+ * Every request is validated before the prompt, as when signed on its own. A request that
+ * fails validation or signing is reported in its result, and the others are still signed.
+ * The prompt is skipped when no request is left to sign.
+ *
+ * @param authenticationOptions, options to READ the blob, generated with a call to
+ * POST /passkey/getSignOptions for the device
+ *
+ * @returns a result for each request, in the order of `requests`
+ */
+export async function signBatch({
+  requests,
+  authenticationOptions,
+  prfSalt,
+  passphrase,
+}: {
+  requests: BatchSignRequest[]
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
+}): Promise<BatchSignResult[]> {
+  if (requests.length === 0) {
+    throw new PasskeyError(
+      'No signatures requested for batch signing',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  const readParams = { authenticationOptions, prfSalt, passphrase }
+
+  const prepared = await Promise.all(
+    requests.map(async (request): Promise<PreparedBatchRequest> => {
+      try {
+        const sign = await prepareBatchRequest(request, readParams)
+
+        return { signatureId: request.signatureId, sign }
+      } catch (error) {
+        return {
+          signatureId: request.signatureId,
+          error: toPasskeyError(error),
+        }
+      }
+    }),
+  )
+
+  if (prepared.every(({ sign }) => sign == null)) {
+    return prepared.map(({ signatureId, error }) => ({ signatureId, error }))
+  }
+
+  const session = await readKeySession(readParams)
+
+  return withKeySession(session, async () => {
+    const results: BatchSignResult[] = []
+
+    // Signed in turn, so a failing request does not stop the others
+    for (const { signatureId, sign, error } of prepared) {
+      if (sign == null) {
+        results.push({ signatureId, error })
+        continue
+      }
+
+      try {
+        results.push({ signatureId, signature: await sign(session) })
+      } catch (signError) {
+        results.push({ signatureId, error: toPasskeyError(signError) })
+      }
+    }
+
+    return results
+  })
+}
+
+// Validates a batch request before the prompt, see `prepareTransaction`
+async function prepareBatchRequest(
+  request: BatchSignRequest,
+  readParams: Pick<SignTransactionParams, BatchSessionParams>,
+): Promise<SessionSigner<string | string[] | SignedEthTransaction>> {
+  switch (request.kind) {
+    case BatchSignKind.TRANSACTION:
+      return prepareTransaction({ ...request.params, ...readParams })
+    case BatchSignKind.TYPED_DATA:
+      return prepareTypedData({ ...request.params, ...readParams })
+    case BatchSignKind.MESSAGE:
+      return (session) =>
+        signMessageWithSession(session, { ...request.params, ...readParams })
+  }
+}
+
 /**
  * Used to load a seed phrase directly from a largeBlob authentication ceremony,
  * without needing to sign a message or transaction. Useful for seed phrase exports
@@ -233,60 +1187,167 @@ export async function signTransaction(
  * @param authenticationOptions, information about the intended authenticator, retrieved
  * by calling POST /passkey/getAuthenticatorOptions with a specific credentialId
  *
+ * @param prfSalt the credential's PRF salt, required to decrypt V2 blobs
+ *
+ * @param passphrase the BIP39 passphrase, required for wallets set up with one
+ *
  * @returns a string, the seed phrase stored on the passkey device
  */
 export async function getStoredSeed(params: {
   authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
 }): Promise<string | null> {
-  const encodedBlob = await readLargeBlob({
-    options: params.authenticationOptions,
+  const { seedPhrase } = await readSeedPhrase(params)
+  return seedPhrase
+}
+
+/**
+ * Exports several account xpubs from a single read of the seed phrase, so BTC and ETH
+ * accounts can be provisioned together without a prompt for each account. Nothing is
+ * written to the device.
+ *
+ * @param authenticationOptions, options to READ the blob, generated with a call to
+ * POST /passkey/getSignOptions
+ *
+ * @param accounts the accounts to export, by script type or derivation path. Paths are
+ * resolved before the prompt, so an invalid request fails without a touch.
+ *
+ * @param network the bitcoin network, used for the coin type of bitcoin accounts and the
+ * xpub serialization, mainnet by default
+ *
+ * @returns the xpubs with their key origins, in the order of `accounts`
+ */
+export async function exportXpubs(params: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  accounts: AccountXpubRequest[]
+  prfSalt?: string
+  passphrase?: string
+  network?: BitcoinNetwork
+}): Promise<PasskeyAccountXpub[]> {
+  if (params.accounts.length === 0) {
+    throw new PasskeyError(
+      'No accounts requested for export',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  const coinType = getCoinType(params.network)
+  const derivationPaths = params.accounts.map((account) =>
+    getRequestPath(account, coinType),
+  )
+
+  const session = await readKeySession(params)
+  const network = getBitcoinjsNetwork(params.network)
+
+  return withKeySession(session, async () =>
+    derivationPaths.map((derivationPath) =>
+      deriveAccountXpub(session, derivationPath, network),
+    ),
+  )
+}
+
+/**
+ * Reads and decodes the seed phrase in a single authentication ceremony. The PRF output is
+ * requested alongside the largeBlob whenever a salt is known, so encrypted and unencrypted
+ * blobs are handled without knowing the blob version ahead of time.
+ */
+async function readSeedPhrase({
+  authenticationOptions,
+  prfSalt,
+  passphrase,
+}: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
+}): Promise<DecodedSeedPhrase> {
+  const { blob, prf } = await readLargeBlob({
+    options: authenticationOptions,
+    prfSalt,
   })
 
-  const { seedPhrase } = decodeSeedPhrase(encodedBlob)
-  return seedPhrase
+  return decodeSeedPhrase(blob, { prf, passphrase })
 }
 
 /**
- * Given a psbt and authenticationOptions, returns a signature from a
- * passkey-held seed phrase.
+ * Reads the seed phrase into a key session, the only form in which signing code gets the
+ * keys, see `KeySession`. The caller disposes the session, e.g. with `withKeySession`.
+ */
+async function readKeySession(params: {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  prfSalt?: string
+  passphrase?: string
+}): Promise<KeySession> {
+  const { seedPhrase } = await readSeedPhrase(params)
+
+  return KeySession.fromSeedPhrase(seedPhrase, params.passphrase)
+}
+
+/**
+ * Given a psbt, returns the signer of its inputs with a passkey-held seed phrase.
+ *
+ * The PSBT is validated before the prompt, and its inputs are checked against the seed
+ * phrase before signing, so a malformed PSBT or the wrong device raises a `PasskeyError`
+ * instead of an empty signature list. A multisig PSBT with a change output that does not
+ * pay back to the vault is rejected before the prompt, and a single signature PSBT with a
+ * change output that does not pay to a key of the seed phrase is rejected before signing.
+ *
+ * The transaction should be reviewed with `describePsbt` before this is called, the
+ * passkey prompt is the last step before the signature is returned.
  *
  * Analogous to `getSignedBitcoinTransaction` in `/packages/device-signing/src/signingDevice.ts`
  */
-async function getSignedBitcoinTransaction(params: {
-  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+function prepareBitcoinTransaction(params: {
   psbt?: string
-}): Promise<string | string[]> {
+  masterFingerprint?: string
+}): SessionSigner<string | string[]> {
   if (!params.psbt) throw new Error('psbt not found')
 
-  const psbt = bitcoinjs.Psbt.fromHex(params.psbt)
+  const psbt = parseSignablePsbt(params.psbt, params.masterFingerprint)
+  assertMultisigChange(psbt)
+  const isMultisig = isMultisigPsbt(psbt)
 
-  // this is console logged so the user may verify the psbt from js console prior to signing
-  // eslint-disable-next-line no-console
-  console.warn(`CASA DEVICE-SIGNING LIB\nPreparing to sign PSBT.\n
-    Copy and paste this into a 3rd party tool such as https://chainquery.com/bitcoin-cli/decodepsbt to verify hex encoded psbt:\n
-    ${psbt?.toBase64()}`)
+  return async (session) => {
+    const signableIndexes = assertPsbtMatchesRoot(psbt, session)
 
-  const encodedBlob = await readLargeBlob({
-    options: params.authenticationOptions,
-  })
+    if (!isMultisig) {
+      assertRootChange(psbt, session)
+    }
+
+    // ECDSA inputs first, taproot inputs are signed with Schnorr
+    signEcdsaInputs(
+      psbt,
+      session,
+      signableIndexes.filter(
+        (index) => !isTaprootInput(psbt.data.inputs[index]),
+      ),
+    )
 
-  const { seedPhrase } = decodeSeedPhrase(encodedBlob)
+    signTaprootInputs(psbt, session)
 
-  const seed = bip39.mnemonicToSeedSync(seedPhrase)
-  const hdRoot = bip32.fromSeed(seed)
-  const signedPsbt = psbt.signAllInputsHD(hdRoot)
+    const signatures = extractSignaturesFromPsbt(psbt)
+    const taprootSignatures = extractTaprootSignatures(psbt)
 
-  return extractSignaturesFromPsbt(signedPsbt)
+    // `extractSignaturesFromPsbt` only reads ECDSA partial signatures
+    return taprootSignatures.length > 0
+      ? [...[signatures].flat(), ...taprootSignatures]
+      : signatures
+  }
 }
 
 /**
- * Given ETH Transaction params and authenticationOptions, returns a signature from a
+ * Given ETH Transaction params, returns the signer of the Safe transaction hash with a
  * passkey-held seed phrase.
+ *
+ * The transaction data is decoded and the SafeTx hash from the server is recomputed from
+ * the transaction fields, a malformed transaction or a mismatch fails before the passkey
+ * prompt.
  */
-async function getGnosisSafeSignature({
+async function prepareGnosisSafeSignature({
   toSign,
   coin,
   safeAddress,
+  safeVersion,
   keyPathPurpose,
   keyPathPurposeIsHardened,
   keyPathCoinType,
@@ -294,59 +1355,152 @@ async function getGnosisSafeSignature({
   keyPathAddress,
   serverHost,
   token,
-  authenticationOptions,
-}: SignTransactionParams): Promise<string> {
+}: SignTransactionParams): Promise<SessionSigner<string>> {
   if (safeAddress == null) {
     throw new Error('Safe address required for Gnosis signature')
   }
 
-  const encodedSeedPhrase = await readLargeBlob({
-    options: authenticationOptions,
+  const isTestnet = isEthTestnet(coin)
+
+  const safe = new GnosisSafe(safeAddress, isTestnet, serverHost, token)
+
+  const hash = await safe.getTransactionHash(toSign, coin)
+
+  const { hash: expectedHash } = describeSafeTransaction({
+    toSign,
+    safeAddress,
+    chainId: getEthChainId(coin),
+    safeVersion,
   })
 
-  const { seedPhrase } = decodeSeedPhrase(encodedSeedPhrase)
+  if (hash.toLowerCase() !== expectedHash.toLowerCase()) {
+    throw new PasskeyError(
+      'Safe transaction hash does not match the transaction',
+      PasskeyErrorCodes.HASH_MISMATCH,
+      { hash, expectedHash },
+    )
+  }
 
-  const isTestnet = coin === COIN.teth || coin === COIN.tethC
+  return async (session) => {
+    const signer = ethSignerFromSession(
+      session,
+      keyPathPurpose,
+      keyPathPurposeIsHardened,
+      keyPathCoinType,
+      keyPathAccount,
+      keyPathAddress!,
+    )
 
-  const safe = new GnosisSafe(safeAddress, isTestnet, serverHost, token)
+    const preadjustedSig = await signer.signMessage(
+      Buffer.from(hash.slice(2), 'hex'),
+    )
+    return adjustSignatureForPrefix(
+      hash.slice(2),
+      preadjustedSig,
+      signer.address,
+    )
+  }
+}
 
-  const hash = await safe.getTransactionHash(toSign, coin)
+/**
+ * Given ETH Transaction params, returns the signer of a plain EIP-1559 or legacy
+ * transaction with the account at the key path, for accounts without a Gnosis Safe. The
+ * transaction is validated and bound to the coin's chain before the passkey prompt.
+ *
+ * The signer returns the raw signed transaction and its hash, for broadcasting
+ */
+function prepareEthTransaction({
+  toSign,
+  coin,
+  keyPathPurpose,
+  keyPathPurposeIsHardened,
+  keyPathCoinType,
+  keyPathAccount,
+  keyPathAddress,
+}: SignTransactionParams): SessionSigner<SignedEthTransaction> {
+  const transaction = parseEthTransaction(toSign, getEthChainId(coin))
 
-  const signer = ethSignerFromSeedAndPath(
-    seedPhrase,
-    keyPathPurpose,
-    keyPathPurposeIsHardened,
-    keyPathCoinType,
-    keyPathAccount,
-    keyPathAddress!,
-  )
+  return async (session) => {
+    const signer = ethSignerFromSession(
+      session,
+      keyPathPurpose,
+      keyPathPurposeIsHardened,
+      keyPathCoinType,
+      keyPathAccount,
+      keyPathAddress!,
+    )
 
-  const preadjustedSig = await signer.signMessage(
-    Buffer.from(hash.slice(2), 'hex'),
-  )
-  return adjustSignatureForPrefix(hash.slice(2), preadjustedSig, signer.address)
+    const rawTransaction = await signer.signTransaction(transaction)
+
+    return { rawTransaction, hash: ethers.utils.keccak256(rawTransaction) }
+  }
+}
+
+/**
+ * Signs EIP-712 typed data, e.g. permits, Safe off-chain messages or other dapp signatures,
+ * with the ETH account at the given key path. The typed data is validated before the
+ * prompt, and should be reviewed with `describeTypedData` first.
+ *
+ * @param typedData the domain, types and message, as sent with `eth_signTypedData_v4`
+ *
+ * @param expectedChainId the chain of the account, see `getEthChainId`. Typed data for
+ * another chain, or for no chain, is rejected, so a permit cannot be signed for a chain the
+ * user did not expect.
+ *
+ * @returns the hex encoded signature
+ */
+export async function signTypedData(
+  params: SignTypedDataParams,
+): Promise<string> {
+  const sign = prepareTypedData(params)
+
+  return withKeySession(await readKeySession(params), sign)
+}
+
+// Validates typed data before the prompt, and returns its signer, see `prepareTransaction`
+function prepareTypedData({
+  typedData,
+  keyPathPurpose,
+  keyPathPurposeIsHardened,
+  keyPathCoinType,
+  keyPathAccount,
+  keyPathAddress,
+  expectedChainId,
+}: SignTypedDataParams): SessionSigner<string> {
+  const { domain, types, message } = parseTypedData(typedData, expectedChainId)
+
+  return async (session) => {
+    const signer = ethSignerFromSession(
+      session,
+      keyPathPurpose,
+      keyPathPurposeIsHardened,
+      keyPathCoinType,
+      keyPathAccount,
+      keyPathAddress!,
+    )
+
+    return signer._signTypedData(domain, types, message)
+  }
 }
 
 /**
- * get an eth signer object built from the seedphrase and the path vars
+ * get an eth signer object built from the key session and the path vars
  *
- * @param seedPhrase
+ * @param session
  * @param keyPathPurpose
  * @param keyPathPurposeIsHardened
  * @param keyPathCoinType
  * @param keyPathAccount
  * @param keyPathAddress
  */
-function ethSignerFromSeedAndPath(
-  seedPhrase: string,
+function ethSignerFromSession(
+  session: KeySession,
   keyPathPurpose: number,
   keyPathPurposeIsHardened: boolean,
   keyPathCoinType: number,
   keyPathAccount: number,
   keyPathAddress: number,
 ): Wallet {
-  const seed = bip39.mnemonicToSeedSync(seedPhrase)
-  const hdRoot = bip32.fromSeed(seed)
   const purpose = `${keyPathPurpose}${keyPathPurposeIsHardened ? "'" : ''}`
   // change is always 0 for eth
   let derivationPath = `m/${purpose}/${keyPathCoinType}/${keyPathAccount}/0`
@@ -355,41 +1509,144 @@ function ethSignerFromSeedAndPath(
     derivationPath += `/${keyPathAddress}`
   }
 
-  const node = hdRoot.derivePath(derivationPath)
+  const node = session.derivePath(derivationPath)
 
+  // The wallet holds its own copy of the key, it must not outlive the signing call
   return new ethers.ethers.Wallet(node.privateKey!)
 }
 
+// Per-request errors of a batch are reported as `PasskeyError`, like the batch itself
+function toPasskeyError(error: unknown): PasskeyError {
+  if (error instanceof PasskeyError) {
+    return error
+  }
+
+  return new PasskeyError(
+    error instanceof Error ? error.message : String(error),
+    PasskeyErrorCodes.UNKNOWN,
+  )
+}
+
 function isValidSeedPhrase(seedPhrase: string): boolean {
   return bip39.validateMnemonic(seedPhrase)
 }
 
-export function encodeSeedPhrase({
+// Hex encoded master key fingerprint, as stored in the V3 blob metadata
+function getMasterFingerprint(seedPhrase: string, passphrase?: string): string {
+  return withSeedPhraseSession(seedPhrase, passphrase, (session) =>
+    session.getRoot().fingerprint.toString('hex'),
+  )
+}
+
+/**
+ * Encodes a seed phrase for storage in a passkey largeBlob.
+ *
+ * V1: `base64(seedPhrase).V1`
+ * V2: `base64(iv || AES-GCM(seedPhrase)).V2`, keyed by HKDF over the credential's PRF output
+ * V3: `base64(JSON envelope).V3`, see `PasskeyBlobEnvelope`. The payload is encrypted as in V2
+ * when a PRF output is available, and the envelope holds a checksum, the master key fingerprint,
+ * the creation timestamp, the generation scheme and the `hardenedKeyPathPurpose`. With a
+ * passphrase, the fingerprint is of the passphrase-derived wallet and `hasPassphrase` is set.
+ */
+export async function encodeSeedPhrase({
   seedPhrase,
   blobVersion = BLOB_VERSION_CURRENT,
+  prf,
+  hardenedKeyPathPurpose,
+  passphrase,
 }: {
   seedPhrase: string
   blobVersion?: PasskeyBlobVersion
-}): string {
+  prf?: string
+  hardenedKeyPathPurpose?: number | null
+  passphrase?: string
+}): Promise<string> {
   const isValid = isValidSeedPhrase(seedPhrase)
 
   if (!isValid) {
     throw new Error('Invalid seed phrase')
   }
 
+  // Only V3 and later record passphrase use, older versions would silently lose it
+  if (passphrase && blobVersion !== PasskeyBlobVersion.V3) {
+    throw new PasskeyError(
+      `Blob version ${blobVersion} cannot record passphrase use`,
+      PasskeyErrorCodes.INCORRECT_STATE,
+    )
+  }
+
+  // The purpose is checked when the envelope is parsed, an unsupported one is never written
+  if (
+    hardenedKeyPathPurpose != null &&
+    !isSupportedKeyPathPurpose(hardenedKeyPathPurpose)
+  ) {
+    throw new PasskeyError(
+      `Unsupported key path purpose ${hardenedKeyPathPurpose}`,
+      PasskeyErrorCodes.INCORRECT_STATE,
+    )
+  }
+
   switch (blobVersion) {
     case PasskeyBlobVersion.V1:
       const base64Seed = utf8ToBase64(seedPhrase)
       return `${base64Seed}${SEED_VERSION_DELIMITER}${blobVersion}`
+    case PasskeyBlobVersion.V2:
+      if (prf == null) {
+        throw new PasskeyError(
+          'PRF output required to encrypt seed phrase',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        )
+      }
+
+      const encryptedSeed = await encryptWithPrf(seedPhrase, prf)
+      return `${encryptedSeed}${SEED_VERSION_DELIMITER}${blobVersion}`
+    case PasskeyBlobVersion.V3:
+      const envelope = serializeEnvelope({
+        payload:
+          prf != null
+            ? await encryptWithPrf(seedPhrase, prf)
+            : utf8ToBase64(seedPhrase),
+        encrypted: prf != null,
+        metadata: {
+          fingerprint: getMasterFingerprint(seedPhrase, passphrase),
+          createdAt: new Date().toISOString(),
+          scheme: PasskeySeedScheme.BIP39,
+          hardenedKeyPathPurpose: hardenedKeyPathPurpose ?? null,
+          hasPassphrase: Boolean(passphrase),
+        },
+      })
+      return `${envelope}${SEED_VERSION_DELIMITER}${blobVersion}`
     default:
       throw new Error('Unsupported seed phrase version')
   }
 }
 
-export function decodeSeedPhrase(encodedSeedPhrase: string): {
-  seedPhrase: string
-  version?: PasskeyBlobVersion
-} {
+/**
+ * Reverses `encodeSeedPhrase`. Unversioned and V1 blobs are read as-is, V2 and encrypted V3
+ * blobs require the PRF output evaluated in the same ceremony as the largeBlob read.
+ *
+ * @throws PasskeyError with code CORRUPTED_BLOB when the blob is truncated, fails its checksum,
+ * or does not decode to the seed phrase described by its metadata
+ *
+ * @throws PasskeyError with code PASSPHRASE_REQUIRED or INVALID_PASSPHRASE when the passphrase
+ * given does not match the one recorded in the blob metadata
+ */
+export async function decodeSeedPhrase(
+  encodedSeedPhrase: string,
+  { prf, passphrase }: { prf?: string; passphrase?: string } = {},
+): Promise<DecodedSeedPhrase> {
+  // Blobs older than V3 never hold a passphrase-protected wallet
+  const isLegacyBlob = !encodedSeedPhrase.endsWith(
+    `${SEED_VERSION_DELIMITER}${PasskeyBlobVersion.V3}`,
+  )
+
+  if (passphrase && isLegacyBlob) {
+    throw new PasskeyError(
+      'This device was set up without a passphrase',
+      PasskeyErrorCodes.INVALID_PASSPHRASE,
+    )
+  }
+
   if (isValidSeedPhrase(encodedSeedPhrase)) {
     console.warn(
       `Seed phrase is not version encoded. This device may not be able to be tracked
@@ -400,13 +1657,115 @@ export function decodeSeedPhrase(encodedSeedPhrase: string): {
     return { seedPhrase: encodedSeedPhrase }
   }
 
-  const [base64Seed, version] = encodedSeedPhrase.split(SEED_VERSION_DELIMITER)
+  const [payload, version] = encodedSeedPhrase.split(SEED_VERSION_DELIMITER)
+
+  if (!payload || !version) {
+    throw new PasskeyError(
+      'Large blob is truncated, missing payload or version',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  switch (version) {
+    case PasskeyBlobVersion.V1:
+      return {
+        seedPhrase: assertValidDecodedSeedPhrase(decodeBlobPayload(payload)),
+        version,
+      }
+    case PasskeyBlobVersion.V2:
+      if (prf == null) {
+        throw new PasskeyError(
+          'PRF output required to decrypt seed phrase',
+          PasskeyErrorCodes.FAILED_READ,
+        )
+      }
+
+      return {
+        seedPhrase: assertValidDecodedSeedPhrase(
+          await decryptWithPrf(payload, prf),
+        ),
+        version,
+      }
+    case PasskeyBlobVersion.V3:
+      const envelope = parseEnvelope(payload)
+
+      if (envelope.encrypted && prf == null) {
+        throw new PasskeyError(
+          'PRF output required to decrypt seed phrase',
+          PasskeyErrorCodes.FAILED_READ,
+        )
+      }
+
+      const seedPhrase = assertValidDecodedSeedPhrase(
+        envelope.encrypted
+          ? await decryptWithPrf(envelope.payload, prf!)
+          : decodeBlobPayload(envelope.payload),
+      )
 
-  if (version !== PasskeyBlobVersion.V1) {
-    throw new Error('Unsupported seed phrase version')
+      const { hasPassphrase } = envelope.metadata
+
+      if (hasPassphrase && !passphrase) {
+        throw new PasskeyError(
+          'This device was set up with a passphrase',
+          PasskeyErrorCodes.PASSPHRASE_REQUIRED,
+        )
+      }
+
+      if (!hasPassphrase && passphrase) {
+        throw new PasskeyError(
+          'This device was set up without a passphrase',
+          PasskeyErrorCodes.INVALID_PASSPHRASE,
+        )
+      }
+
+      /**
+       * The checksum already rules out corruption of the metadata, so with a passphrase a
+       * fingerprint mismatch means the passphrase is wrong
+       */
+      if (
+        getMasterFingerprint(seedPhrase, passphrase) !==
+        envelope.metadata.fingerprint
+      ) {
+        throw hasPassphrase
+          ? new PasskeyError(
+              'Passphrase does not match the stored fingerprint',
+              PasskeyErrorCodes.INVALID_PASSPHRASE,
+            )
+          : new PasskeyError(
+              'Large blob seed phrase does not match its stored fingerprint',
+              PasskeyErrorCodes.CORRUPTED_BLOB,
+            )
+      }
+
+      return { seedPhrase, version, metadata: envelope.metadata }
+    default:
+      throw new Error('Unsupported seed phrase version')
+  }
+}
+
+// Decodes a base64 seed phrase payload, malformed base64 is reported as a corrupted blob
+function decodeBlobPayload(payload: string): string {
+  try {
+    return base64ToUtf8(payload)
+  } catch (error) {
+    throw new PasskeyError(
+      'Large blob payload is not valid base64',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
   }
+}
 
-  const seedPhrase = base64ToUtf8(base64Seed)
+/**
+ * Raises a precise error for a decoded seed phrase that would otherwise only fail later,
+ * inside bip39, with no indication that the stored blob was the cause
+ */
+function assertValidDecodedSeedPhrase(seedPhrase: string): string {
+  if (!isValidSeedPhrase(seedPhrase)) {
+    throw new PasskeyError(
+      'Large blob does not decode to a valid seed phrase',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
 
-  return { seedPhrase, version }
+  return seedPhrase
 }
@@ -0,0 +1,186 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import {
+  Bip322AddressType,
+  finalizeBip322Multisig,
+  getBip322AddressType,
+  signBip322Message,
+  verifyBip322Message,
+} from '../utils/bip322'
+import { KeySession } from '../utils/keySession'
+import { RECEIVE_ADDRESS, SEED_PHRASE } from './support/passkeyFixtures'
+
+// The BIP322 test vectors, signed by the key of the address
+const VECTOR_ADDRESS = 'bc1q9vza2e8x573nczrlzms0wvx3gsqjx7vavgkx0l'
+const VECTOR_SIGNATURES = {
+  '': 'AkcwRAIgM2gBAQqvZX15ZiysmKmQpDrG83avLIT492QBzLnQIxYCIBaTpOaD20qRlEylyxFSeEA2ba9YOixpX8z46TSDtS40ASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+  'Hello World':
+    'AkcwRAIgZRfIY3p7/DoVTty6YZbWS71bc5Vct9p9Fia83eRmw2QCICK/ENGfwLtptFluMGs2KsqoNSk89pO7F29zJLUx9a/sASECx/EgAxlkQpQ9hYjgGu6EBCPMVPwVIVJqO4XCsMvViHI=',
+}
+
+const COSIGNER_SEED_PHRASE =
+  'legal winner thank year wave sausage worth useful legal winner thank yellow'
+
+const MULTISIG_PATH = "m/48'/0'/0'/2'/0/0"
+const MESSAGE = 'Proof of ownership'
+
+describe('BIP322', () => {
+  let session: KeySession
+  let cosignerSession: KeySession
+
+  beforeEach(() => {
+    session = KeySession.fromSeedPhrase(SEED_PHRASE)
+    cosignerSession = KeySession.fromSeedPhrase(COSIGNER_SEED_PHRASE)
+  })
+
+  afterEach(() => {
+    session.dispose()
+    cosignerSession.dispose()
+  })
+
+  it.each(Object.entries(VECTOR_SIGNATURES))(
+    'verifies the test vector for the message %p',
+    (message, signature) => {
+      expect(
+        verifyBip322Message({ message, address: VECTOR_ADDRESS, signature }),
+      ).toBe(true)
+    },
+  )
+
+  it('does not verify a test vector for another message', () => {
+    expect(
+      verifyBip322Message({
+        message: 'Hello World!',
+        address: VECTOR_ADDRESS,
+        signature: VECTOR_SIGNATURES['Hello World'],
+      }),
+    ).toBe(false)
+  })
+
+  it('signs for a P2WPKH address in the simple format', () => {
+    const { address, signature } = signBip322Message({
+      message: MESSAGE,
+      session,
+      path: "m/84'/0'/0'/0/0",
+      addressType: Bip322AddressType.P2WPKH,
+    })
+
+    expect(address).toBe(RECEIVE_ADDRESS)
+    expect(verifyBip322Message({ message: MESSAGE, address, signature })).toBe(
+      true,
+    )
+  })
+
+  it('signs for a P2TR address in the simple format', () => {
+    const { address, signature } = signBip322Message({
+      message: MESSAGE,
+      session,
+      path: "m/86'/0'/0'/0/0",
+      addressType: Bip322AddressType.P2TR,
+    })
+
+    expect(address).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+    )
+    expect(verifyBip322Message({ message: MESSAGE, address, signature })).toBe(
+      true,
+    )
+  })
+
+  describe('multisig', () => {
+    const getWitnessScript = () =>
+      bitcoinjs.payments.p2ms({
+        m: 2,
+        pubkeys: [session, cosignerSession]
+          .map((signer) => signer.derivePath(MULTISIG_PATH).publicKey)
+          .sort(Buffer.compare),
+      }).output!
+
+    const signMultisig = (signer: KeySession, witnessScript: Buffer) =>
+      signBip322Message({
+        message: MESSAGE,
+        session: signer,
+        path: MULTISIG_PATH,
+        addressType: Bip322AddressType.P2WSH_MULTISIG,
+        witnessScript,
+      })
+
+    it('combines the cosigner signatures into the full format', () => {
+      const witnessScript = getWitnessScript()
+      const first = signMultisig(session, witnessScript)
+      const second = signMultisig(cosignerSession, witnessScript)
+
+      const signature = finalizeBip322Multisig([
+        first.signature,
+        second.signature,
+      ])
+
+      expect(first.address).toBe(second.address)
+      expect(
+        verifyBip322Message({
+          message: MESSAGE,
+          address: first.address,
+          signature,
+        }),
+      ).toBe(true)
+    })
+
+    it('does not verify a full signature whose transaction is not a signing transaction', () => {
+      const witnessScript = getWitnessScript()
+      const { address } = signMultisig(session, witnessScript)
+      const signature = finalizeBip322Multisig([
+        signMultisig(session, witnessScript).signature,
+        signMultisig(cosignerSession, witnessScript).signature,
+      ])
+
+      const withVersion = (tx: bitcoinjs.Transaction) => {
+        tx.version = 2
+      }
+      const withLocktime = (tx: bitcoinjs.Transaction) => {
+        tx.locktime = 1
+      }
+      const withDataOutput = (tx: bitcoinjs.Transaction) => {
+        tx.outs[0].script = bitcoinjs.script.compile([
+          bitcoinjs.opcodes.OP_RETURN,
+          Buffer.from('data'),
+        ])
+      }
+
+      for (const tamper of [withVersion, withLocktime, withDataOutput]) {
+        const tx = bitcoinjs.Transaction.fromBuffer(
+          Buffer.from(signature, 'base64'),
+        )
+        tamper(tx)
+
+        expect(
+          verifyBip322Message({
+            message: MESSAGE,
+            address,
+            signature: tx.toBuffer().toString('base64'),
+          }),
+        ).toBe(false)
+      }
+    })
+
+    it('refuses to sign for a script without the key of the session', () => {
+      const witnessScript = bitcoinjs.payments.p2ms({
+        m: 1,
+        pubkeys: [cosignerSession.derivePath(MULTISIG_PATH).publicKey],
+      }).output!
+
+      expect(() => signMultisig(session, witnessScript)).toThrow(
+        'Witness script does not include the key of this device',
+      )
+    })
+  })
+
+  it('selects the address type from the key path purpose', () => {
+    expect(getBip322AddressType(84, false)).toBe(Bip322AddressType.P2WPKH)
+    expect(getBip322AddressType(86, false)).toBe(Bip322AddressType.P2TR)
+    expect(getBip322AddressType(48, true)).toBe(
+      Bip322AddressType.P2WSH_MULTISIG,
+    )
+    expect(getBip322AddressType(48, false)).toBeNull()
+    expect(getBip322AddressType(44, false)).toBeNull()
+  })
+})
@@ -0,0 +1,43 @@
+import { decryptWithPrf, encryptWithPrf } from '../utils/blobEncryption'
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import { SEED_PHRASE } from './support/passkeyFixtures'
+
+const PRF = Buffer.alloc(32, 1).toString('base64')
+const OTHER_PRF = Buffer.alloc(32, 2).toString('base64')
+
+describe('blob encryption', () => {
+  it('decrypts with the PRF output it was encrypted with', async () => {
+    const encrypted = await encryptWithPrf(SEED_PHRASE, PRF)
+
+    expect(encrypted).not.toContain('abandon')
+    await expect(decryptWithPrf(encrypted, PRF)).resolves.toBe(SEED_PHRASE)
+  })
+
+  it('reports a different PRF output as a corrupted blob', async () => {
+    const encrypted = await encryptWithPrf(SEED_PHRASE, PRF)
+
+    await expect(decryptWithPrf(encrypted, OTHER_PRF)).rejects.toMatchObject({
+      message: 'Unable to decrypt large blob with PRF output',
+      code: PasskeyErrorCodes.CORRUPTED_BLOB,
+    })
+  })
+
+  it('reports a truncated blob as corrupted', async () => {
+    const encrypted = await encryptWithPrf(SEED_PHRASE, PRF)
+    const truncated = Buffer.from(encrypted, 'base64')
+      .subarray(0, 8)
+      .toString('base64')
+
+    await expect(decryptWithPrf(truncated, PRF)).rejects.toMatchObject({
+      message: 'Encrypted large blob is truncated',
+      code: PasskeyErrorCodes.CORRUPTED_BLOB,
+    })
+  })
+
+  it('reports malformed base64 as a corrupted blob', async () => {
+    await expect(decryptWithPrf('not base64!', PRF)).rejects.toMatchObject({
+      message: 'Encrypted large blob is not valid base64',
+      code: PasskeyErrorCodes.CORRUPTED_BLOB,
+    })
+  })
+})
@@ -0,0 +1,127 @@
+import {
+  PasskeyBlobEnvelope,
+  PasskeySeedScheme,
+  parseEnvelope,
+  serializeEnvelope,
+} from '../utils/blobEnvelope'
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import { MASTER_FINGERPRINT } from './support/passkeyFixtures'
+
+const ENVELOPE: Omit<PasskeyBlobEnvelope, 'checksum'> = {
+  payload: Buffer.from('seed phrase').toString('base64'),
+  encrypted: false,
+  metadata: {
+    fingerprint: MASTER_FINGERPRINT,
+    createdAt: '2024-01-01T00:00:00.000Z',
+    scheme: PasskeySeedScheme.BIP39,
+    hardenedKeyPathPurpose: 84,
+    hasPassphrase: false,
+  },
+}
+
+describe('blob envelope', () => {
+  it('parses a serialized envelope', () => {
+    const { checksum, ...envelope } = parseEnvelope(serializeEnvelope(ENVELOPE))
+
+    expect(envelope).toEqual(ENVELOPE)
+    expect(checksum).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('rejects an envelope whose contents do not match the checksum', () => {
+    const serialized = serializeEnvelope(ENVELOPE)
+    const tampered = {
+      ...decode(serialized),
+      payload: Buffer.from('other seed phrase').toString('base64'),
+    }
+
+    expect(() => parseEnvelope(encode(tampered))).toThrow(
+      expect.objectContaining({
+        message: 'Large blob checksum does not match its contents',
+        code: PasskeyErrorCodes.CORRUPTED_BLOB,
+      }),
+    )
+  })
+
+  it('rejects an envelope that is not valid JSON', () => {
+    const serialized = serializeEnvelope(ENVELOPE)
+
+    expect(() => parseEnvelope(serialized.slice(0, 20))).toThrow(
+      expect.objectContaining({ code: PasskeyErrorCodes.CORRUPTED_BLOB }),
+    )
+  })
+
+  it('rejects an envelope whose passphrase flag was flipped', () => {
+    const serialized = serializeEnvelope(ENVELOPE)
+    const envelope = decode(serialized)
+    const tampered = {
+      ...envelope,
+      metadata: { ...envelope.metadata, hasPassphrase: true },
+    }
+
+    expect(() => parseEnvelope(encode(tampered))).toThrow(
+      expect.objectContaining({
+        message: 'Large blob checksum does not match its contents',
+        code: PasskeyErrorCodes.CORRUPTED_BLOB,
+      }),
+    )
+  })
+
+  it('rejects an envelope without the passphrase flag', () => {
+    const envelope = decode(serializeEnvelope(ENVELOPE))
+    // Dropped by JSON.stringify, as in an envelope written without the flag
+    const missingFlag = {
+      ...envelope,
+      metadata: { ...envelope.metadata, hasPassphrase: undefined },
+    } as unknown as PasskeyBlobEnvelope
+
+    expect(() => parseEnvelope(encode(missingFlag))).toThrow(
+      expect.objectContaining({
+        message: 'Large blob envelope has missing or invalid metadata',
+        code: PasskeyErrorCodes.CORRUPTED_BLOB,
+      }),
+    )
+  })
+
+  it.each([44, 48, 49, 84, 86, null])(
+    'accepts the key path purpose %p',
+    (hardenedKeyPathPurpose) => {
+      const envelope = {
+        ...ENVELOPE,
+        metadata: { ...ENVELOPE.metadata, hardenedKeyPathPurpose },
+      }
+
+      expect(
+        parseEnvelope(serializeEnvelope(envelope)).metadata
+          .hardenedKeyPathPurpose,
+      ).toBe(hardenedKeyPathPurpose)
+    },
+  )
+
+  it.each([0, 45, 85, '84'])(
+    'rejects the key path purpose %p',
+    (hardenedKeyPathPurpose) => {
+      const envelope = {
+        ...ENVELOPE,
+        metadata: {
+          ...ENVELOPE.metadata,
+          hardenedKeyPathPurpose: hardenedKeyPathPurpose as number,
+        },
+      }
+
+      expect(() => parseEnvelope(serializeEnvelope(envelope))).toThrow(
+        expect.objectContaining({
+          message: 'Large blob envelope has missing or invalid metadata',
+          code: PasskeyErrorCodes.CORRUPTED_BLOB,
+        }),
+      )
+    },
+  )
+})
+
+function decode(serialized: string): PasskeyBlobEnvelope {
+  return JSON.parse(Buffer.from(serialized, 'base64').toString('utf8'))
+}
+
+function encode(envelope: PasskeyBlobEnvelope): string {
+  return Buffer.from(JSON.stringify(envelope)).toString('base64')
+}
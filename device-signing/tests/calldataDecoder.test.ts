@@ -0,0 +1,171 @@
+import { ethers } from 'ethers'
+
+import {
+  AbiRegistry,
+  CallKind,
+  decodeCalldata,
+  flattenCalls,
+  isMultiSendDeployment,
+} from '../utils/calldataDecoder'
+import { ETH_MAINNET_CHAIN_ID } from '../utils/ethChains'
+
+const TOKEN = '0x6B175474E89094C44Da98b954EedeAC495271d0F'
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD'
+const MULTI_SEND = '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D'
+const UNKNOWN_CONTRACT = '0x1111111111111111111111111111111111111111'
+
+const erc20 = new ethers.utils.Interface([
+  'function transfer(address to, uint256 amount)',
+])
+const multiSend = new ethers.utils.Interface([
+  'function multiSend(bytes transactions)',
+])
+
+describe('decodeCalldata', () => {
+  it('decodes a token transfer', () => {
+    const call = decodeCalldata({
+      to: TOKEN,
+      value: '0',
+      data: erc20.encodeFunctionData('transfer', [RECIPIENT, 1000]),
+      isDelegateCall: false,
+    })
+
+    expect(call.kind).toBe(CallKind.ERC20_TRANSFER)
+    expect(call.method).toBe('transfer(address,uint256)')
+    expect(call.args).toEqual([
+      { name: 'to', type: 'address', value: RECIPIENT },
+      { name: 'amount', type: 'uint256', value: '1000' },
+    ])
+  })
+
+  it('describes a call without data as a native transfer', () => {
+    const call = decodeCalldata({
+      to: RECIPIENT,
+      value: '1',
+      data: '0x',
+      isDelegateCall: false,
+    })
+
+    expect(call.kind).toBe(CallKind.NATIVE_TRANSFER)
+  })
+
+  it('keeps the raw data of an unknown function', () => {
+    const data = '0xdeadbeef00'
+    const call = decodeCalldata({
+      to: UNKNOWN_CONTRACT,
+      value: '0',
+      data,
+      isDelegateCall: false,
+    })
+
+    expect(call.kind).toBe(CallKind.UNKNOWN)
+    expect(call.method).toBeNull()
+    expect(call.data).toBe(data)
+  })
+
+  it('decodes functions added to a registry', () => {
+    const registry = new AbiRegistry([
+      { fragment: 'function deposit()', kind: CallKind.UNKNOWN },
+    ])
+    const call = decodeCalldata(
+      {
+        to: UNKNOWN_CONTRACT,
+        value: '0',
+        data: ethers.utils.id('deposit()').slice(0, 10),
+        isDelegateCall: false,
+      },
+      registry,
+    )
+
+    expect(call.method).toBe('deposit()')
+  })
+
+  it('unpacks the calls of a MultiSend batch in order', () => {
+    const transfer = erc20.encodeFunctionData('transfer', [RECIPIENT, 5])
+    const call = decodeCalldata({
+      to: MULTI_SEND,
+      value: '0',
+      data: encodeMultiSend([
+        { operation: 0, to: RECIPIENT, value: 7, data: '0x' },
+        { operation: 0, to: TOKEN, value: 0, data: transfer },
+        { operation: 1, to: UNKNOWN_CONTRACT, value: 0, data: '0x12345678' },
+      ]),
+      isDelegateCall: true,
+    })
+
+    expect(call.kind).toBe(CallKind.MULTI_SEND)
+    expect(
+      flattenCalls(call).map(({ kind, to, isDelegateCall }) => ({
+        kind,
+        to,
+        isDelegateCall,
+      })),
+    ).toEqual([
+      { kind: CallKind.MULTI_SEND, to: MULTI_SEND, isDelegateCall: true },
+      { kind: CallKind.NATIVE_TRANSFER, to: RECIPIENT, isDelegateCall: false },
+      { kind: CallKind.ERC20_TRANSFER, to: TOKEN, isDelegateCall: false },
+      { kind: CallKind.UNKNOWN, to: UNKNOWN_CONTRACT, isDelegateCall: true },
+    ])
+    expect(call.calls![0].value).toBe('7')
+  })
+
+  it('rejects a truncated MultiSend batch', () => {
+    const transactions = ethers.utils.hexlify(new Uint8Array(40))
+
+    expect(() =>
+      decodeCalldata({
+        to: MULTI_SEND,
+        value: '0',
+        data: multiSend.encodeFunctionData('multiSend', [transactions]),
+        isDelegateCall: true,
+      }),
+    ).toThrow('MultiSend transaction is truncated')
+  })
+})
+
+describe('isMultiSendDeployment', () => {
+  const batch = (to: string) =>
+    decodeCalldata({
+      to,
+      value: '0',
+      data: encodeMultiSend([
+        { operation: 0, to: RECIPIENT, value: 1, data: '0x' },
+      ]),
+      isDelegateCall: true,
+    })
+
+  it('trusts a batch sent to a known MultiSend deployment', () => {
+    expect(
+      isMultiSendDeployment(
+        batch(MULTI_SEND.toLowerCase()),
+        ETH_MAINNET_CHAIN_ID,
+      ),
+    ).toBe(true)
+  })
+
+  it('does not trust the multiSend selector on another contract', () => {
+    expect(
+      isMultiSendDeployment(batch(UNKNOWN_CONTRACT), ETH_MAINNET_CHAIN_ID),
+    ).toBe(false)
+  })
+
+  it('does not trust a deployment on an unknown chain', () => {
+    expect(isMultiSendDeployment(batch(MULTI_SEND), 137)).toBe(false)
+  })
+})
+
+// Encodes the calls as the data of a MultiSend `multiSend` call
+function encodeMultiSend(
+  calls: { operation: number; to: string; value: number; data: string }[],
+): string {
+  const transactions = ethers.utils.hexConcat(
+    calls.map(({ operation, to, value, data }) =>
+      ethers.utils.solidityPack(
+        ['uint8', 'address', 'uint256', 'uint256', 'bytes'],
+        [operation, to, value, ethers.utils.hexDataLength(data), data],
+      ),
+    ),
+  )
+
+  return multiSend.encodeFunctionData('multiSend', [transactions])
+}
@@ -0,0 +1,64 @@
+import { BigNumber } from 'ethers'
+
+import { ToSign } from '../types/toSign'
+import { ETH_MAINNET_CHAIN_ID, ETH_TESTNET_CHAIN_ID } from '../utils/ethChains'
+import {
+  EthTransactionType,
+  parseEthTransaction,
+} from '../utils/ethTransaction'
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD'
+
+const TO_SIGN = {
+  to: RECIPIENT,
+  value: '1000',
+  nonce: 3,
+  gasLimit: 21000,
+  maxFeePerGas: '30000000000',
+  maxPriorityFeePerGas: '1000000000',
+} as unknown as ToSign
+
+const parse = (fields: Record<string, unknown>) =>
+  parseEthTransaction(
+    { ...TO_SIGN, ...fields } as unknown as ToSign,
+    ETH_MAINNET_CHAIN_ID,
+  )
+
+describe('parseEthTransaction', () => {
+  it('parses an EIP-1559 transaction on the chain of the coin', () => {
+    expect(parse({})).toEqual({
+      to: RECIPIENT,
+      value: BigNumber.from(1000),
+      data: '0x',
+      nonce: 3,
+      gasLimit: BigNumber.from(21000),
+      chainId: ETH_MAINNET_CHAIN_ID,
+      type: EthTransactionType.EIP1559,
+      maxFeePerGas: BigNumber.from('30000000000'),
+      maxPriorityFeePerGas: BigNumber.from('1000000000'),
+    })
+  })
+
+  it('rejects a transaction for another chain', () => {
+    expect(() => parse({ chainId: ETH_TESTNET_CHAIN_ID })).toThrow(
+      expect.objectContaining({
+        message: 'ETH transaction is for another chain',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it.each([
+    ['a negative nonce', '-1'],
+    ['a nonce that is not a number', 'next'],
+    ['a nonce beyond the safe integer range', '9007199254740992'],
+  ])('rejects %s', (_, nonce) => {
+    expect(() => parse({ nonce })).toThrow(
+      expect.objectContaining({
+        message: 'Invalid ETH transaction nonce',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+})
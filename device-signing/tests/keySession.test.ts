@@ -0,0 +1,178 @@
+import * as bip39 from 'bip39'
+
+import {
+  exportXpubs,
+  getSignedMessage,
+  importSeedPhrase,
+} from '../passkeyDevice'
+import { AccountScriptType } from '../utils/descriptorUtils'
+import {
+  KEY_SESSION_TTL_MS,
+  KeySession,
+  withKeySession,
+} from '../utils/keySession'
+import {
+  createRawCredential,
+  navigatorTransport,
+  setWebAuthnTransport,
+} from '../utils/passkeyUtils'
+import {
+  CREATION_OPTIONS,
+  KEY_PATH_ACCOUNT,
+  KEY_PATH_COIN_TYPE,
+  ORIGIN,
+  RP_ID,
+  SEED_PHRASE,
+  getRequestOptions,
+} from './support/passkeyFixtures'
+import { VirtualAuthenticator } from './support/virtualAuthenticator'
+
+const RECEIVE_PATH = "m/84'/0'/0'/0/0"
+
+describe('KeySession', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('overwrites the seed and derived keys on dispose', () => {
+    const seed = bip39.mnemonicToSeedSync(SEED_PHRASE)
+    const session = new KeySession(seed)
+    const root = session.getRoot()
+    const node = session.derivePath(RECEIVE_PATH)
+
+    expect(isZeroed(node.privateKey!)).toBe(false)
+
+    session.dispose()
+
+    expect(session.isDisposed).toBe(true)
+    expect(isZeroed(seed)).toBe(true)
+    expect(isZeroed(root.privateKey!)).toBe(true)
+    expect(isZeroed(root.chainCode)).toBe(true)
+    expect(isZeroed(node.privateKey!)).toBe(true)
+    expect(isZeroed(node.chainCode)).toBe(true)
+  })
+
+  it('tweaks keys as bip32 does, and overwrites them on dispose', () => {
+    const session = KeySession.fromSeedPhrase(SEED_PHRASE)
+    const node = session.derivePath("m/86'/0'/0'/0/0")
+    const tweakHash = Buffer.alloc(32, 1)
+
+    const tweakedNode = session.tweak(node, tweakHash)
+
+    expect(tweakedNode.publicKey).toEqual(node.tweak(tweakHash).publicKey)
+
+    session.dispose()
+
+    expect(isZeroed(tweakedNode.privateKey!)).toBe(true)
+  })
+
+  it('cannot derive once disposed', () => {
+    const session = KeySession.fromSeedPhrase(SEED_PHRASE)
+    const node = session.derivePath(RECEIVE_PATH)
+
+    session.dispose()
+
+    expect(() => session.getRoot()).toThrow('Key session expired or disposed')
+    expect(() => session.derivePath(RECEIVE_PATH)).toThrow(
+      'Key session expired or disposed',
+    )
+    expect(() => session.tweak(node, Buffer.alloc(32, 1))).toThrow(
+      'Key session expired or disposed',
+    )
+  })
+
+  it('disposes itself once the TTL passes', () => {
+    jest.useFakeTimers()
+
+    const session = KeySession.fromSeedPhrase(SEED_PHRASE)
+    const node = session.derivePath(RECEIVE_PATH)
+
+    jest.advanceTimersByTime(KEY_SESSION_TTL_MS - 1)
+    expect(session.isDisposed).toBe(false)
+
+    jest.advanceTimersByTime(1)
+    expect(session.isDisposed).toBe(true)
+    expect(isZeroed(node.privateKey!)).toBe(true)
+  })
+
+  it('is disposed by withKeySession when the use throws', async () => {
+    const session = KeySession.fromSeedPhrase(SEED_PHRASE)
+
+    await expect(
+      withKeySession(session, async () => {
+        throw new Error('Signing failed')
+      }),
+    ).rejects.toThrow('Signing failed')
+
+    expect(session.isDisposed).toBe(true)
+  })
+})
+
+describe('passkey device key sessions', () => {
+  let credentialId: string
+
+  beforeEach(async () => {
+    setWebAuthnTransport(
+      new VirtualAuthenticator({ rpId: RP_ID, origin: ORIGIN }),
+    )
+
+    const registration = await createRawCredential(CREATION_OPTIONS)
+    credentialId = registration.id
+
+    await importSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      hardenedKeyPathPurpose: 84,
+      authenticationOptions: getRequestOptions(credentialId),
+      credentialId,
+    })
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    setWebAuthnTransport(navigatorTransport)
+  })
+
+  it('disposes the session of a signed message', async () => {
+    const fromSeedPhrase = jest.spyOn(KeySession, 'fromSeedPhrase')
+
+    await getSignedMessage({
+      coin: 'BTC',
+      keyPathPurpose: 84,
+      keyPathPurposeIsHardened: true,
+      keyPathCoinType: KEY_PATH_COIN_TYPE,
+      keyPathAccount: KEY_PATH_ACCOUNT,
+      message: 'key session',
+      authenticationOptions: getRequestOptions(credentialId),
+    })
+
+    expect(fromSeedPhrase).toHaveBeenCalled()
+    expect(getSessions(fromSeedPhrase).every(isDisposed)).toBe(true)
+  })
+
+  it('disposes the session of an xpub export', async () => {
+    const fromSeedPhrase = jest.spyOn(KeySession, 'fromSeedPhrase')
+
+    await exportXpubs({
+      authenticationOptions: getRequestOptions(credentialId),
+      accounts: [{ scriptType: AccountScriptType.P2WPKH }],
+    })
+
+    expect(fromSeedPhrase).toHaveBeenCalled()
+    expect(getSessions(fromSeedPhrase).every(isDisposed)).toBe(true)
+  })
+})
+
+function isZeroed(bytes: Uint8Array): boolean {
+  return bytes.every((byte) => byte === 0)
+}
+
+function isDisposed(session: KeySession): boolean {
+  return session.isDisposed
+}
+
+// The sessions created through a spy on `KeySession.fromSeedPhrase`
+function getSessions(
+  fromSeedPhrase: jest.SpyInstance<KeySession, [string, string?, number?]>,
+): KeySession[] {
+  return fromSeedPhrase.mock.results.map(({ value }) => value as KeySession)
+}
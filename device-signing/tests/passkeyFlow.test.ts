@@ -0,0 +1,228 @@
+import {
+  BatchSignKind,
+  getSignedMessage,
+  importSeedPhrase,
+  signBatch,
+  wipeDevice,
+} from '../passkeyDevice'
+import { verifyBip322Message } from '../utils/bip322'
+import { ETH_MAINNET_CHAIN_ID, ETH_TESTNET_CHAIN_ID } from '../utils/ethChains'
+import {
+  LARGE_BLOB_EMPTY_MESSAGE,
+  PasskeyErrorCodes,
+  createRawCredential,
+  navigatorTransport,
+  readLargeBlob,
+  setWebAuthnTransport,
+  wipeLargeBlob,
+  writeLargeBlob,
+} from '../utils/passkeyUtils'
+import {
+  CREATION_OPTIONS,
+  KEY_PATH_ACCOUNT,
+  KEY_PATH_COIN_TYPE,
+  MASTER_FINGERPRINT,
+  ORIGIN,
+  RECEIVE_ADDRESS,
+  RP_ID,
+  SEED_PHRASE,
+  getRequestOptions,
+  toBase64url,
+} from './support/passkeyFixtures'
+import { VirtualAuthenticator } from './support/virtualAuthenticator'
+
+const PRF_SALT = toBase64url('passkey-prf-salt-for-tests-000000')
+
+describe('passkey flow', () => {
+  let authenticator: VirtualAuthenticator
+
+  beforeEach(() => {
+    authenticator = new VirtualAuthenticator({ rpId: RP_ID, origin: ORIGIN })
+    setWebAuthnTransport(authenticator)
+  })
+
+  afterEach(() => {
+    setWebAuthnTransport(navigatorTransport)
+  })
+
+  it('reads back the blob written to a registered credential', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    await writeLargeBlob({
+      options: getRequestOptions(credentialId),
+      credentialId,
+      blob: 'blob.V1',
+    })
+
+    const { blob, credentialId: readCredentialId } = await readLargeBlob({
+      options: getRequestOptions(credentialId),
+    })
+
+    expect(blob).toBe('blob.V1')
+    expect(readCredentialId).toBe(credentialId)
+  })
+
+  it('signs with the seed phrase written to a registered credential', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    const { accountXpub } = await importSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      hardenedKeyPathPurpose: 84,
+      authenticationOptions: getRequestOptions(credentialId),
+      credentialId,
+      prfSalt: PRF_SALT,
+    })
+
+    expect(accountXpub.masterFingerprint).toBe(MASTER_FINGERPRINT)
+    expect(accountXpub.derivationPath).toBe("m/84'/0'/0'")
+
+    // Written with the PRF output, the seed phrase is not stored in the clear
+    const storedBlob = authenticator.getLargeBlob(credentialId)
+
+    expect(storedBlob).not.toBeNull()
+    expect(Buffer.from(storedBlob!).toString()).not.toContain('abandon')
+
+    const message = 'passkey flow'
+    const signature = await getSignedMessage({
+      coin: 'BTC',
+      keyPathPurpose: 84,
+      keyPathPurposeIsHardened: true,
+      keyPathCoinType: KEY_PATH_COIN_TYPE,
+      keyPathAccount: KEY_PATH_ACCOUNT,
+      message,
+      authenticationOptions: getRequestOptions(credentialId),
+      prfSalt: PRF_SALT,
+    })
+
+    expect(
+      verifyBip322Message({ message, address: RECEIVE_ADDRESS, signature }),
+    ).toBe(true)
+  })
+
+  it('reports the results of a batch in the order of its requests', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    await importSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      hardenedKeyPathPurpose: 84,
+      authenticationOptions: getRequestOptions(credentialId),
+      credentialId,
+    })
+
+    const getMessageRequest = (signatureId: string) => ({
+      kind: BatchSignKind.MESSAGE as const,
+      signatureId,
+      params: {
+        coin: 'BTC' as const,
+        keyPathPurpose: 84,
+        keyPathPurposeIsHardened: true,
+        keyPathCoinType: KEY_PATH_COIN_TYPE,
+        keyPathAccount: KEY_PATH_ACCOUNT,
+        message: signatureId,
+      },
+    })
+    const get = jest.spyOn(authenticator, 'get')
+
+    const results = await signBatch({
+      requests: [
+        getMessageRequest('first'),
+        // Fails validation before the prompt, as it is for another chain
+        {
+          kind: BatchSignKind.TYPED_DATA,
+          signatureId: 'second',
+          params: {
+            typedData: {
+              domain: { chainId: ETH_TESTNET_CHAIN_ID },
+              types: { Mail: [{ name: 'contents', type: 'string' }] },
+              primaryType: 'Mail',
+              message: { contents: 'second' },
+            },
+            keyPathPurpose: 44,
+            keyPathPurposeIsHardened: true,
+            keyPathCoinType: 0x8000003c,
+            keyPathAccount: KEY_PATH_ACCOUNT,
+            keyPathAddress: 0,
+            expectedChainId: ETH_MAINNET_CHAIN_ID,
+          },
+        },
+        getMessageRequest('third'),
+      ],
+      authenticationOptions: getRequestOptions(credentialId),
+    })
+
+    expect(get).toHaveBeenCalledTimes(1)
+    expect(results.map(({ signatureId }) => signatureId)).toEqual([
+      'first',
+      'second',
+      'third',
+    ])
+    expect(results[1].error?.code).toBe(PasskeyErrorCodes.INVALID_SUBMISSION)
+
+    for (const { signatureId, signature } of [results[0], results[2]]) {
+      expect(
+        verifyBip322Message({
+          message: signatureId,
+          address: RECEIVE_ADDRESS,
+          signature: signature as string,
+        }),
+      ).toBe(true)
+    }
+  })
+
+  it('exports the account xpub of an ethereum device on coin type 60', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    const { accountXpub } = await importSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      hardenedKeyPathPurpose: 44,
+      coin: 'ETH',
+      authenticationOptions: getRequestOptions(credentialId),
+      credentialId,
+    })
+
+    expect(accountXpub.derivationPath).toBe("m/44'/60'/0'")
+    expect(accountXpub.descriptorKey).toMatch(/^\[73c5da0a\/44'\/60'\/0'\]xpub/)
+  })
+
+  it('fails to read a wiped blob as an empty blob', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    await writeLargeBlob({
+      options: getRequestOptions(credentialId),
+      credentialId,
+      blob: 'blob.V1',
+    })
+    await wipeLargeBlob({
+      options: getRequestOptions(credentialId),
+      credentialId,
+    })
+
+    await expect(
+      readLargeBlob({ options: getRequestOptions(credentialId) }),
+    ).rejects.toMatchObject({
+      message: LARGE_BLOB_EMPTY_MESSAGE,
+      code: PasskeyErrorCodes.FAILED_READ,
+    })
+  })
+
+  it('wipes the seed phrase of a retired credential', async () => {
+    const { id: credentialId } = await createRawCredential(CREATION_OPTIONS)
+
+    await importSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      hardenedKeyPathPurpose: 84,
+      authenticationOptions: getRequestOptions(credentialId),
+      credentialId,
+    })
+
+    const response = await wipeDevice({
+      authenticationOptions: getRequestOptions(credentialId),
+      getWriteOptions: async (readCredentialId) =>
+        getRequestOptions(readCredentialId),
+      retiredCredentialId: credentialId,
+    })
+
+    expect(response.credentialId).toBe(credentialId)
+    expect(authenticator.getLargeBlob(credentialId)?.byteLength ?? 0).toBe(0)
+  })
+})
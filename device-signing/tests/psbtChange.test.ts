@@ -0,0 +1,170 @@
+import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
+import BIP32Factory, { BIP32Interface } from 'bip32'
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import {
+  assertMultisigChange,
+  isMultisigPsbt,
+  verifyMultisigChange,
+} from '../utils/psbtChange'
+
+const bip32 = BIP32Factory(ecc)
+
+// BIP48 P2WSH account path of each cosigner
+const ACCOUNT_PATH = "m/48'/0'/0'/2'"
+const RECIPIENT = 'bc1qxhmdufsvnuaaaer4ynz88fspdsxq2h9e9cetdj'
+const PREVIOUS_TXID =
+  '2222222222222222222222222222222222222222222222222222222222222222'
+
+// Version bytes of a mainnet xpub
+const XPUB_VERSION = 0x0488b21e
+
+interface Cosigner {
+  root: BIP32Interface
+  account: BIP32Interface
+}
+
+describe('verifyMultisigChange', () => {
+  const vault = [1, 2, 3].map(getCosigner)
+  const otherVault = [4, 5, 6].map(getCosigner)
+
+  it('shows an output paying back to the vault as change', () => {
+    const psbt = buildVaultPsbt({ cosigners: vault })
+
+    expect(isMultisigPsbt(psbt)).toBe(true)
+    expect(verifyMultisigChange(psbt)).toEqual({
+      changeIndexes: [1],
+      mismatchedIndexes: [],
+    })
+    expect(() => assertMultisigChange(psbt)).not.toThrow()
+  })
+
+  it('flags change whose script does not rebuild from its derivations', () => {
+    const psbt = buildVaultPsbt({
+      cosigners: vault,
+      changeScript: getVaultScript(otherVault, '1/0'),
+    })
+
+    expect(verifyMultisigChange(psbt)).toEqual({
+      changeIndexes: [],
+      mismatchedIndexes: [1],
+    })
+    expect(() => assertMultisigChange(psbt)).toThrow(
+      expect.objectContaining({
+        code: PasskeyErrorCodes.INVALID_CHANGE,
+        data: { outputIndexes: [1] },
+      }),
+    )
+  })
+
+  it('does not trust cosigner xpubs that the inputs do not derive from', () => {
+    const psbt = buildVaultPsbt({ cosigners: vault, globalXpubs: otherVault })
+
+    expect(() => verifyMultisigChange(psbt)).toThrow(
+      expect.objectContaining({
+        message: 'PSBT input script does not derive from the cosigner xpubs',
+        code: PasskeyErrorCodes.INVALID_PSBT,
+      }),
+    )
+  })
+
+  it('rejects a multisig PSBT without cosigner xpubs', () => {
+    const psbt = buildVaultPsbt({ cosigners: vault, globalXpubs: [] })
+
+    expect(() => verifyMultisigChange(psbt)).toThrow(
+      expect.objectContaining({
+        message: 'Multisig PSBT is missing the cosigner xpubs',
+        code: PasskeyErrorCodes.INVALID_PSBT,
+      }),
+    )
+  })
+})
+
+function getCosigner(seedByte: number): Cosigner {
+  const root = bip32.fromSeed(Buffer.alloc(32, seedByte))
+
+  return { root, account: root.derivePath(ACCOUNT_PATH) }
+}
+
+function getDerivations(cosigners: Cosigner[], relativePath: string) {
+  return cosigners.map(({ root, account }) => ({
+    masterFingerprint: root.fingerprint,
+    pubkey: account.derivePath(relativePath).publicKey,
+    path: `${ACCOUNT_PATH}/${relativePath}`,
+  }))
+}
+
+// The sorted 2-of-n multisig script of the cosigners on a path below their accounts
+function getMultisigScript(cosigners: Cosigner[], relativePath: string) {
+  const pubkeys = cosigners
+    .map(({ account }) => account.derivePath(relativePath).publicKey)
+    .sort(Buffer.compare)
+
+  return bitcoinjs.payments.p2ms({ m: 2, pubkeys }).output!
+}
+
+function getVaultScript(cosigners: Cosigner[], relativePath: string) {
+  return bitcoinjs.payments.p2wsh({
+    redeem: { output: getMultisigScript(cosigners, relativePath) },
+  }).output!
+}
+
+// Serialized xpub: version, depth, parent fingerprint, child index, chain code, key
+function serializeXpub(node: BIP32Interface): Buffer {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(XPUB_VERSION, 0)
+  header.writeUInt8(node.depth, 4)
+  header.writeUInt32BE(node.parentFingerprint, 5)
+  header.writeUInt32BE(node.index, 9)
+
+  return Buffer.concat([header, node.chainCode, node.publicKey])
+}
+
+/**
+ * A 2-of-3 P2WSH vault PSBT spending the first receive script of the vault to a recipient,
+ * with change claimed by the cosigners' derivations on the first change path
+ *
+ * @param changeScript the script the change output pays to, the vault change script by
+ * default
+ *
+ * @param globalXpubs the cosigners whose xpubs are in the global xpub map, the vault
+ * cosigners by default
+ */
+function buildVaultPsbt({
+  cosigners,
+  changeScript = getVaultScript(cosigners, '1/0'),
+  globalXpubs = cosigners,
+}: {
+  cosigners: Cosigner[]
+  changeScript?: Buffer
+  globalXpubs?: Cosigner[]
+}): bitcoinjs.Psbt {
+  const psbt = new bitcoinjs.Psbt()
+
+  psbt.addInput({
+    hash: PREVIOUS_TXID,
+    index: 0,
+    witnessUtxo: { script: getVaultScript(cosigners, '0/0'), value: 100000 },
+    witnessScript: getMultisigScript(cosigners, '0/0'),
+    bip32Derivation: getDerivations(cosigners, '0/0'),
+  })
+  psbt.addOutput({ address: RECIPIENT, value: 60000 })
+  psbt.addOutput({
+    script: changeScript,
+    value: 39000,
+    bip32Derivation: getDerivations(cosigners, '1/0'),
+  })
+
+  if (globalXpubs.length > 0) {
+    psbt.updateGlobal({
+      globalXpub: globalXpubs.map(({ root, account }) => ({
+        extendedPubkey: serializeXpub(account),
+        masterFingerprint: root.fingerprint,
+        path: ACCOUNT_PATH,
+      })),
+    })
+  }
+
+  return psbt
+}
@@ -0,0 +1,146 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from '../utils/keySession'
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import { assertRootChange } from '../utils/psbtChange'
+import { describePsbt } from '../utils/psbtReview'
+import {
+  MASTER_FINGERPRINT,
+  RECEIVE_ADDRESS,
+  SEED_PHRASE,
+} from './support/passkeyFixtures'
+
+const RECEIVE_PATH = "m/84'/0'/0'/0/0"
+const CHANGE_PATH = "m/84'/0'/0'/1/0"
+const RECIPIENT = 'bc1qxhmdufsvnuaaaer4ynz88fspdsxq2h9e9cetdj'
+const PREVIOUS_TXID =
+  '1111111111111111111111111111111111111111111111111111111111111111'
+
+describe('describePsbt', () => {
+  let session: KeySession
+
+  beforeEach(() => {
+    session = KeySession.fromSeedPhrase(SEED_PHRASE)
+  })
+
+  afterEach(() => {
+    session.dispose()
+  })
+
+  it('summarizes the inputs, outputs and fee', () => {
+    const summary = describePsbt(buildPsbt(session), { session })
+
+    expect(summary.inputs).toEqual([
+      {
+        txid: PREVIOUS_TXID,
+        vout: 0,
+        value: 100000,
+        address: RECEIVE_ADDRESS,
+      },
+    ])
+    expect(
+      summary.outputs.map(({ address, value }) => [address, value]),
+    ).toEqual([
+      [RECIPIENT, 60000],
+      [getAddress(session, CHANGE_PATH), 39000],
+    ])
+    expect(summary.fee).toBe(1000)
+    expect(summary.feeRate).toBeGreaterThan(0)
+  })
+
+  it('shows an output paying back to the session as change', () => {
+    const summary = describePsbt(buildPsbt(session), { session })
+
+    expect(summary.isChangeVerified).toBe(true)
+    expect(summary.outputs.map(({ isChange }) => isChange)).toEqual([
+      false,
+      true,
+    ])
+  })
+
+  it('flags change claimed by fingerprint as unverified without a session', () => {
+    const summary = describePsbt(buildPsbt(session), {
+      masterFingerprint: MASTER_FINGERPRINT,
+    })
+
+    expect(summary.isChangeVerified).toBe(false)
+    expect(summary.outputs.map(({ isChange }) => isChange)).toEqual([
+      false,
+      false,
+    ])
+    expect(
+      summary.outputs.map(({ isUnverifiedChange }) => isUnverifiedChange),
+    ).toEqual([false, true])
+  })
+
+  it('flags change that pays to a key the session does not derive', () => {
+    const psbtHex = buildPsbt(session, { changeAddress: RECIPIENT })
+    const summary = describePsbt(psbtHex, { session })
+
+    expect(summary.outputs[1]).toMatchObject({
+      isChange: false,
+      isChangeMismatch: true,
+    })
+    expect(() =>
+      assertRootChange(bitcoinjs.Psbt.fromHex(psbtHex), session),
+    ).toThrow(
+      expect.objectContaining({
+        code: PasskeyErrorCodes.INVALID_CHANGE,
+        data: { outputIndexes: [1] },
+      }),
+    )
+  })
+})
+
+function getAddress(session: KeySession, path: string): string {
+  return bitcoinjs.payments.p2wpkh({
+    pubkey: session.derivePath(path).publicKey,
+  }).address!
+}
+
+/**
+ * A P2WPKH PSBT spending 100000 sats from the first receive address to a recipient, with
+ * change claimed by the wallet's derivation on the first change path
+ *
+ * @param changeAddress where the change output pays, the change path address by default
+ */
+function buildPsbt(
+  session: KeySession,
+  { changeAddress }: { changeAddress?: string } = {},
+): string {
+  const { fingerprint } = session.getRoot()
+  const receiveNode = session.derivePath(RECEIVE_PATH)
+  const changeNode = session.derivePath(CHANGE_PATH)
+
+  const psbt = new bitcoinjs.Psbt()
+
+  psbt.addInput({
+    hash: PREVIOUS_TXID,
+    index: 0,
+    witnessUtxo: {
+      script: bitcoinjs.address.toOutputScript(RECEIVE_ADDRESS),
+      value: 100000,
+    },
+    bip32Derivation: [
+      {
+        masterFingerprint: fingerprint,
+        pubkey: receiveNode.publicKey,
+        path: RECEIVE_PATH,
+      },
+    ],
+  })
+  psbt.addOutput({ address: RECIPIENT, value: 60000 })
+  psbt.addOutput({
+    address: changeAddress ?? getAddress(session, CHANGE_PATH),
+    value: 39000,
+    bip32Derivation: [
+      {
+        masterFingerprint: fingerprint,
+        pubkey: changeNode.publicKey,
+        path: CHANGE_PATH,
+      },
+    ],
+  })
+
+  return psbt.toHex()
+}
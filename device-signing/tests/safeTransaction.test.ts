@@ -0,0 +1,199 @@
+import { ethers } from 'ethers'
+
+import { ToSign } from '../types/toSign'
+import { ETH_MAINNET_CHAIN_ID } from '../utils/ethChains'
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import {
+  SafeOperation,
+  SafeTransaction,
+  describeSafeTransaction,
+  hashSafeTransaction,
+  parseSafeTransaction,
+} from '../utils/safeTransaction'
+
+const SAFE_ADDRESS = '0x1111111111111111111111111111111111111111'
+const RECIPIENT = '0x000000000000000000000000000000000000dEaD'
+
+// Type hashes of the Safe contracts, see `SAFE_TX_TYPEHASH` and `DOMAIN_SEPARATOR_TYPEHASH`
+const SAFE_TX_TYPEHASH =
+  '0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8'
+const DOMAIN_TYPEHASH =
+  '0x47e79534a245952e8b16893a336b85a3d9ea9fa8c573f3d803afb92a79469218'
+const LEGACY_DOMAIN_TYPEHASH =
+  '0x035aff83d86937d35b32e04f0ddc6ff469290eef2f1b692d8a815c89404d4749'
+
+const TO_SIGN = {
+  to: RECIPIENT,
+  value: '1000000000000000000',
+  data: '0x',
+  operation: SafeOperation.CALL,
+  nonce: 7,
+} as unknown as ToSign
+
+describe('Safe transactions', () => {
+  it('defaults the gas and refund fields to zero', () => {
+    expect(parseSafeTransaction(TO_SIGN)).toEqual({
+      to: RECIPIENT,
+      value: '1000000000000000000',
+      data: '0x',
+      operation: SafeOperation.CALL,
+      safeTxGas: '0',
+      baseGas: '0',
+      gasPrice: '0',
+      gasToken: ethers.constants.AddressZero,
+      refundReceiver: ethers.constants.AddressZero,
+      nonce: '7',
+    })
+  })
+
+  it.each([
+    ['nonce', { nonce: undefined }],
+    ['value', { value: '-1' }],
+    ['to', { to: 'not an address' }],
+    ['operation', { operation: 2 }],
+    ['data', { data: 'not hex' }],
+  ])('rejects an invalid %s', (field, fields) => {
+    expect(() =>
+      parseSafeTransaction({ ...TO_SIGN, ...fields } as unknown as ToSign),
+    ).toThrow(
+      expect.objectContaining({
+        message: `Invalid Safe transaction ${field}`,
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it('hashes as the Safe contract with the chain ID in the domain', () => {
+    const transaction = parseSafeTransaction(TO_SIGN)
+
+    expect(
+      hashSafeTransaction({
+        transaction,
+        safeAddress: SAFE_ADDRESS,
+        chainId: ETH_MAINNET_CHAIN_ID,
+      }),
+    ).toBe(
+      getTransactionHash(
+        transaction,
+        ethers.utils.defaultAbiCoder.encode(
+          ['bytes32', 'uint256', 'address'],
+          [DOMAIN_TYPEHASH, ETH_MAINNET_CHAIN_ID, SAFE_ADDRESS],
+        ),
+      ),
+    )
+  })
+
+  it('hashes without the chain ID for Safes before v1.3.0', () => {
+    const transaction = parseSafeTransaction(TO_SIGN)
+    const expectedHash = getTransactionHash(
+      transaction,
+      ethers.utils.defaultAbiCoder.encode(
+        ['bytes32', 'address'],
+        [LEGACY_DOMAIN_TYPEHASH, SAFE_ADDRESS],
+      ),
+    )
+
+    for (const safeVersion of ['1.0.0', '1.1.1', '1.2.0']) {
+      expect(
+        hashSafeTransaction({
+          transaction,
+          safeAddress: SAFE_ADDRESS,
+          chainId: ETH_MAINNET_CHAIN_ID,
+          safeVersion,
+        }),
+      ).toBe(expectedHash)
+    }
+  })
+
+  it('rejects Safe versions whose hash it cannot compute', () => {
+    const transaction = parseSafeTransaction(TO_SIGN)
+
+    expect(() =>
+      hashSafeTransaction({
+        transaction,
+        safeAddress: SAFE_ADDRESS,
+        chainId: ETH_MAINNET_CHAIN_ID,
+        safeVersion: '0.1.0',
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        message: 'Safe version is not supported',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+    expect(() =>
+      hashSafeTransaction({
+        transaction,
+        safeAddress: SAFE_ADDRESS,
+        chainId: ETH_MAINNET_CHAIN_ID,
+        safeVersion: 'latest',
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        message: 'Invalid Safe version',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it('describes the transaction with its hash', () => {
+    const review = describeSafeTransaction({
+      toSign: TO_SIGN,
+      safeAddress: SAFE_ADDRESS,
+      chainId: ETH_MAINNET_CHAIN_ID,
+    })
+
+    expect(review.call.to).toBe(RECIPIENT)
+    expect(review.hash).toBe(
+      hashSafeTransaction({
+        transaction: review.transaction,
+        safeAddress: SAFE_ADDRESS,
+        chainId: ETH_MAINNET_CHAIN_ID,
+      }),
+    )
+  })
+})
+
+// `getTransactionHash` of the Safe contract, from the ABI encoded domain separator fields
+function getTransactionHash(
+  transaction: SafeTransaction,
+  encodedDomain: string,
+): string {
+  const safeTxHash = ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(
+      [
+        'bytes32',
+        'address',
+        'uint256',
+        'bytes32',
+        'uint8',
+        'uint256',
+        'uint256',
+        'uint256',
+        'address',
+        'address',
+        'uint256',
+      ],
+      [
+        SAFE_TX_TYPEHASH,
+        transaction.to,
+        transaction.value,
+        ethers.utils.keccak256(transaction.data),
+        transaction.operation,
+        transaction.safeTxGas,
+        transaction.baseGas,
+        transaction.gasPrice,
+        transaction.gasToken,
+        transaction.refundReceiver,
+        transaction.nonce,
+      ],
+    ),
+  )
+
+  return ethers.utils.keccak256(
+    ethers.utils.solidityPack(
+      ['bytes1', 'bytes1', 'bytes32', 'bytes32'],
+      ['0x19', '0x01', ethers.utils.keccak256(encodedDomain), safeTxHash],
+    ),
+  )
+}
@@ -0,0 +1,55 @@
+import { PasskeyErrorCodes } from '../utils/passkeyUtils'
+import { combineShares, splitSeedPhrase } from '../utils/shamirUtils'
+import { SEED_PHRASE } from './support/passkeyFixtures'
+
+describe('shamir shares', () => {
+  it('recovers the seed phrase from any threshold of shares', () => {
+    const shares = splitSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      threshold: 2,
+      shareCount: 3,
+    })
+
+    expect(shares).toHaveLength(3)
+    expect(combineShares([shares[0], shares[2]])).toBe(SEED_PHRASE)
+    expect(combineShares([shares[2], shares[1]])).toBe(SEED_PHRASE)
+  })
+
+  it('fails to recover the seed phrase below the threshold', () => {
+    const shares = splitSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      threshold: 3,
+      shareCount: 5,
+    })
+
+    expect(() => combineShares(shares.slice(0, 2))).toThrow(
+      expect.objectContaining({
+        message: 'Unable to recover seed phrase from shares',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it('rejects a threshold of a single share', () => {
+    expect(() =>
+      splitSeedPhrase({ seedPhrase: SEED_PHRASE, threshold: 1, shareCount: 3 }),
+    ).toThrow(
+      expect.objectContaining({ code: PasskeyErrorCodes.INVALID_SUBMISSION }),
+    )
+  })
+
+  it('reports the index of an invalid share', () => {
+    const shares = splitSeedPhrase({
+      seedPhrase: SEED_PHRASE,
+      threshold: 2,
+      shareCount: 3,
+    })
+
+    expect(() => combineShares([shares[0], 'not a share'])).toThrow(
+      expect.objectContaining({
+        message: 'Invalid share',
+        data: { invalidShareIndexes: [1] },
+      }),
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import {
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/types'
+
+import { PUBLIC_KEY_CREDENTIAL_TYPE } from '../../utils/passkeyUtils'
+
+export const RP_ID = 'keys.casa.io'
+export const ORIGIN = 'https://keys.casa.io'
+
+// The BIP84 test vector, its master fingerprint and first receive address
+export const SEED_PHRASE =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+export const MASTER_FINGERPRINT = '73c5da0a'
+export const RECEIVE_ADDRESS = 'bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu'
+
+// Coin type and account of the BIP84 path, as indexes offset by 2^31 to derive them hardened
+export const KEY_PATH_COIN_TYPE = 0x80000000
+export const KEY_PATH_ACCOUNT = 0x80000000
+
+// Registration options as returned by GET /passkey/getCreateOptions
+export const CREATION_OPTIONS: PublicKeyCredentialCreationOptionsJSON = {
+  rp: { id: RP_ID, name: 'Casa' },
+  user: {
+    id: toBase64url('satoshi-user-id'),
+    name: 'satoshi',
+    displayName: 'Satoshi',
+  },
+  challenge: toBase64url('register-challenge'),
+  pubKeyCredParams: [{ type: PUBLIC_KEY_CREDENTIAL_TYPE, alg: -7 }],
+}
+
+// Authentication options for a single credential, as returned by POST /passkey/getSignOptions
+export function getRequestOptions(
+  credentialId: string,
+): PublicKeyCredentialRequestOptionsJSON {
+  return {
+    challenge: toBase64url('authentication-challenge'),
+    rpId: RP_ID,
+    allowCredentials: [{ id: credentialId, type: PUBLIC_KEY_CREDENTIAL_TYPE }],
+  }
+}
+
+export function toBase64url(text: string): string {
+  return Buffer.from(text).toString('base64url')
+}
@@ -0,0 +1,621 @@
+import { Base64URLString } from '@simplewebauthn/types'
+
+import {
+  arrayBufferToBase64String,
+  base64ToBase64url,
+} from '@casa/common/src/lib/encodingUtils'
+
+import {
+  PUBLIC_KEY_CREDENTIAL_TYPE,
+  WebAuthnTransport,
+  normalizeCredentialId,
+} from '../../utils/passkeyUtils'
+
+// Failures of the next ceremony, for exercising error handling without a hardware key
+export enum VirtualAuthenticatorFailure {
+  // The user dismisses the prompt or lets it time out, raised as a NotAllowedError
+  USER_CANCEL = 'USER_CANCEL',
+  // The largeBlob extension output is missing, as on a browser without largeBlob support
+  LARGE_BLOB_UNAVAILABLE = 'LARGE_BLOB_UNAVAILABLE',
+  // The blob is not stored and the write reports `written: false`
+  LARGE_BLOB_WRITE = 'LARGE_BLOB_WRITE',
+  // The prf extension output is missing, as on an authenticator without hmac-secret
+  PRF_UNAVAILABLE = 'PRF_UNAVAILABLE',
+}
+
+export interface VirtualAuthenticatorOptions {
+  // Scopes credentials created without an explicit rp id, as a browser does with the page
+  rpId: string
+  // The origin reported in the client data, e.g. https://keys.casa.io
+  origin: string
+  largeBlobSupported?: boolean
+  prfSupported?: boolean
+  // CTAP 2.1 only guarantees 1024 bytes for the serialized largeBlob array
+  largeBlobMaxBytes?: number
+}
+
+interface VirtualCredential {
+  id: Base64URLString
+  rawId: Uint8Array
+  rpId: string
+  userHandle: Uint8Array
+  privateKey: CryptoKey
+  // The hmac-secret of the credential, null when PRF is not supported
+  prfKey: CryptoKey | null
+  signCount: number
+}
+
+// Extension inputs as sent by the passkey utils, which the DOM types do not define
+interface ExtensionInputs {
+  largeBlob?: {
+    support?: 'required' | 'preferred'
+    read?: boolean
+    write?: BufferSource
+  }
+  prf?: { eval?: { first: BufferSource; second?: BufferSource } }
+}
+
+// Extension outputs as read by the passkey utils
+interface ExtensionOutputs {
+  largeBlob?: { supported?: boolean; blob?: ArrayBuffer; written?: boolean }
+  prf?: {
+    enabled?: boolean
+    results?: { first: ArrayBuffer; second?: ArrayBuffer }
+  }
+}
+
+/**
+ * The fields of a `PublicKeyCredential` that the passkey utils read. The DOM class cannot be
+ * constructed outside a browser, so ceremonies return plain objects of this shape.
+ */
+interface VirtualPublicKeyCredential extends Credential {
+  rawId: ArrayBuffer
+  authenticatorAttachment: AuthenticatorAttachment | null
+  response: AuthenticatorAttestationResponse | AuthenticatorAssertionResponse
+  getClientExtensionResults(): ExtensionOutputs
+}
+
+// COSE algorithm and key parameters of an ES256 (ECDSA P-256 with SHA-256) credential
+const COSE_ALG_ES256 = -7
+const COSE_KTY_EC2 = 2
+const COSE_CRV_P256 = 1
+
+// Authenticator data flags, user present, user verified and attested credential data
+const FLAG_UP = 0x01
+const FLAG_UV = 0x04
+const FLAG_AT = 0x40
+
+const CREDENTIAL_ID_BYTES = 32
+
+// A software authenticator has no model, so attests with the all-zero AAGUID
+const AAGUID = new Uint8Array(16)
+
+// Domain separation of PRF salts before they reach hmac-secret, per WebAuthn level 3
+const PRF_SALT_CONTEXT = 'WebAuthn PRF'
+
+const DEFAULT_LARGE_BLOB_MAX_BYTES = 1024
+
+/**
+ * A software WebAuthn authenticator, used in tests as the transport of the passkey utils to
+ * run register, write, read and sign flows in Node or jsdom with no hardware.
+ *
+ * Credentials are ES256 keys held in the Web Crypto API, attested with the `none` format,
+ * and support the largeBlob and PRF extensions like a CTAP 2.1 security key. Errors are
+ * raised as the `DOMException`s a browser raises, so callers handle them the same way.
+ */
+export class VirtualAuthenticator implements WebAuthnTransport {
+  private readonly credentials = new Map<Base64URLString, VirtualCredential>()
+
+  // Blobs by credential, kept apart from the credentials like the CTAP largeBlob array
+  private readonly largeBlobs = new Map<Base64URLString, Uint8Array>()
+
+  private readonly failures: VirtualAuthenticatorFailure[] = []
+
+  private readonly rpId: string
+
+  private readonly origin: string
+
+  private readonly largeBlobSupported: boolean
+
+  private readonly prfSupported: boolean
+
+  private readonly largeBlobMaxBytes: number
+
+  constructor({
+    rpId,
+    origin,
+    largeBlobSupported = true,
+    prfSupported = true,
+    largeBlobMaxBytes = DEFAULT_LARGE_BLOB_MAX_BYTES,
+  }: VirtualAuthenticatorOptions) {
+    this.rpId = rpId
+    this.origin = origin
+    this.largeBlobSupported = largeBlobSupported
+    this.prfSupported = prfSupported
+    this.largeBlobMaxBytes = largeBlobMaxBytes
+  }
+
+  // Queues a failure for the next ceremony, get or create, failures apply in order
+  failNextCeremony(failure: VirtualAuthenticatorFailure): void {
+    this.failures.push(failure)
+  }
+
+  // The blob stored for a credential, empty once wiped and null if never written to
+  getLargeBlob(credentialId: Base64URLString): Uint8Array | null {
+    return this.largeBlobs.get(toBase64url(credentialId)) ?? null
+  }
+
+  async create(
+    options: CredentialCreationOptions,
+  ): Promise<VirtualPublicKeyCredential> {
+    const failure = this.failures.shift()
+    const { publicKey } = options
+
+    if (failure === VirtualAuthenticatorFailure.USER_CANCEL) {
+      throw notAllowedError()
+    }
+
+    if (publicKey == null) {
+      throw new DOMException(
+        'Only public key credentials are supported',
+        'NotSupportedError',
+      )
+    }
+
+    if (!publicKey.pubKeyCredParams.some(({ alg }) => alg === COSE_ALG_ES256)) {
+      throw new DOMException(
+        'None of the requested algorithms are supported',
+        'NotSupportedError',
+      )
+    }
+
+    const rpId = publicKey.rp.id ?? this.rpId
+    const isExcluded = (publicKey.excludeCredentials ?? []).some(({ id }) => {
+      const credential = this.credentials.get(toCredentialId(id))
+      return credential?.rpId === rpId
+    })
+
+    if (isExcluded) {
+      throw new DOMException(
+        'The authenticator already holds an excluded credential',
+        'InvalidStateError',
+      )
+    }
+
+    const extensions = publicKey.extensions as ExtensionInputs | undefined
+    const hasLargeBlob =
+      this.largeBlobSupported &&
+      failure !== VirtualAuthenticatorFailure.LARGE_BLOB_UNAVAILABLE
+    const hasPrf =
+      this.prfSupported &&
+      failure !== VirtualAuthenticatorFailure.PRF_UNAVAILABLE
+
+    if (extensions?.largeBlob?.support === 'required' && !hasLargeBlob) {
+      throw new DOMException(
+        'The authenticator does not support largeBlob',
+        'NotSupportedError',
+      )
+    }
+
+    const rawId = crypto.getRandomValues(new Uint8Array(CREDENTIAL_ID_BYTES))
+    const { privateKey, publicKey: credentialPublicKey } =
+      await crypto.subtle.generateKey(
+        { name: 'ECDSA', namedCurve: 'P-256' },
+        false,
+        ['sign'],
+      )
+    const prfKey = hasPrf
+      ? await crypto.subtle.generateKey(
+          { name: 'HMAC', hash: 'SHA-256', length: 256 },
+          false,
+          ['sign'],
+        )
+      : null
+
+    const credential: VirtualCredential = {
+      id: toCredentialId(rawId),
+      rawId,
+      rpId,
+      userHandle: toBytes(publicKey.user.id).slice(),
+      privateKey,
+      prfKey,
+      signCount: 0,
+    }
+
+    this.credentials.set(credential.id, credential)
+
+    // Uncompressed point, 0x04 followed by the x and y coordinates
+    const point = new Uint8Array(
+      await crypto.subtle.exportKey('raw', credentialPublicKey),
+    )
+    const coseKey = encodeCbor(
+      new Map<CborValue, CborValue>([
+        [1, COSE_KTY_EC2],
+        [3, COSE_ALG_ES256],
+        [-1, COSE_CRV_P256],
+        [-2, point.slice(1, 33)],
+        [-3, point.slice(33, 65)],
+      ]),
+    )
+
+    const authenticatorData = concatBytes(
+      await sha256(new TextEncoder().encode(rpId)),
+      Uint8Array.of(
+        getUserFlags(publicKey.authenticatorSelection?.userVerification) |
+          FLAG_AT,
+      ),
+      uint32(credential.signCount),
+      AAGUID,
+      Uint8Array.of(rawId.length >> 8, rawId.length & 0xff),
+      rawId,
+      coseKey,
+    )
+
+    const attestationObject = encodeCbor({
+      fmt: 'none',
+      attStmt: {},
+      authData: authenticatorData,
+    })
+
+    const clientExtensionResults: ExtensionOutputs = {}
+
+    if (extensions?.largeBlob != null) {
+      clientExtensionResults.largeBlob = { supported: hasLargeBlob }
+    }
+
+    if (extensions?.prf != null) {
+      clientExtensionResults.prf = { enabled: hasPrf }
+    }
+
+    const publicKeyInfo = await crypto.subtle.exportKey(
+      'spki',
+      credentialPublicKey,
+    )
+
+    const response: AuthenticatorAttestationResponse = {
+      clientDataJSON: this.getClientData('webauthn.create', publicKey),
+      attestationObject: toArrayBuffer(attestationObject),
+      getAuthenticatorData: () => toArrayBuffer(authenticatorData),
+      getPublicKey: () => publicKeyInfo,
+      getPublicKeyAlgorithm: () => COSE_ALG_ES256,
+      getTransports: () => ['usb'],
+    }
+
+    return toPublicKeyCredential(rawId, response, clientExtensionResults)
+  }
+
+  async get(
+    options: CredentialRequestOptions,
+  ): Promise<VirtualPublicKeyCredential> {
+    const failure = this.failures.shift()
+    const { publicKey } = options
+
+    if (failure === VirtualAuthenticatorFailure.USER_CANCEL) {
+      throw notAllowedError()
+    }
+
+    if (publicKey == null) {
+      throw new DOMException(
+        'Only public key credentials are supported',
+        'NotSupportedError',
+      )
+    }
+
+    const rpId = publicKey.rpId ?? this.rpId
+    const allowedIds = (publicKey.allowCredentials ?? []).map(({ id }) =>
+      toCredentialId(id),
+    )
+    const credential = Array.from(this.credentials.values()).find(
+      ({ id, rpId: credentialRpId }) =>
+        credentialRpId === rpId &&
+        (allowedIds.length === 0 || allowedIds.includes(id)),
+    )
+
+    // Browsers do not tell the page that no credential matched, the prompt is rejected
+    if (credential == null) {
+      throw notAllowedError()
+    }
+
+    const extensions = publicKey.extensions as ExtensionInputs | undefined
+    const clientExtensionResults: ExtensionOutputs = {}
+
+    if (
+      extensions?.largeBlob != null &&
+      this.largeBlobSupported &&
+      failure !== VirtualAuthenticatorFailure.LARGE_BLOB_UNAVAILABLE
+    ) {
+      clientExtensionResults.largeBlob = this.getLargeBlobResult(
+        credential.id,
+        extensions.largeBlob,
+        allowedIds.length,
+        failure === VirtualAuthenticatorFailure.LARGE_BLOB_WRITE,
+      )
+    }
+
+    if (
+      extensions?.prf?.eval != null &&
+      credential.prfKey != null &&
+      failure !== VirtualAuthenticatorFailure.PRF_UNAVAILABLE
+    ) {
+      const { first, second } = extensions.prf.eval
+
+      clientExtensionResults.prf = {
+        results: {
+          first: await evaluatePrfSalt(credential.prfKey, first),
+          second:
+            second != null
+              ? await evaluatePrfSalt(credential.prfKey, second)
+              : undefined,
+        },
+      }
+    }
+
+    credential.signCount += 1
+
+    const clientDataJSON = this.getClientData('webauthn.get', publicKey)
+    const authenticatorData = concatBytes(
+      await sha256(new TextEncoder().encode(rpId)),
+      Uint8Array.of(getUserFlags(publicKey.userVerification)),
+      uint32(credential.signCount),
+    )
+    const signature = await crypto.subtle.sign(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      credential.privateKey,
+      concatBytes(
+        authenticatorData,
+        await sha256(new Uint8Array(clientDataJSON)),
+      ),
+    )
+
+    const response: AuthenticatorAssertionResponse = {
+      clientDataJSON,
+      authenticatorData: toArrayBuffer(authenticatorData),
+      // Web Crypto signs in the IEEE P1363 form, WebAuthn signatures are DER encoded
+      signature: toArrayBuffer(toDerSignature(new Uint8Array(signature))),
+      userHandle: toArrayBuffer(credential.userHandle),
+    }
+
+    return toPublicKeyCredential(
+      credential.rawId,
+      response,
+      clientExtensionResults,
+    )
+  }
+
+  private getLargeBlobResult(
+    credentialId: Base64URLString,
+    { read, write }: NonNullable<ExtensionInputs['largeBlob']>,
+    allowedCount: number,
+    failWrite: boolean,
+  ): NonNullable<ExtensionOutputs['largeBlob']> {
+    if (read === true && write != null) {
+      throw new DOMException(
+        'largeBlob read and write cannot be combined',
+        'NotSupportedError',
+      )
+    }
+
+    if (write != null) {
+      // A blob is written for a single credential, the browser rejects any other request
+      if (allowedCount !== 1) {
+        throw new DOMException(
+          'largeBlob write requires a single allowed credential',
+          'NotSupportedError',
+        )
+      }
+
+      const blob = toBytes(write).slice()
+
+      if (failWrite || blob.byteLength > this.largeBlobMaxBytes) {
+        return { written: false }
+      }
+
+      this.largeBlobs.set(credentialId, blob)
+
+      return { written: true }
+    }
+
+    const storedBlob = this.largeBlobs.get(credentialId)
+
+    if (read === true && storedBlob != null) {
+      return { blob: toArrayBuffer(storedBlob) }
+    }
+
+    return {}
+  }
+
+  private getClientData(
+    type: 'webauthn.create' | 'webauthn.get',
+    { challenge }: { challenge: BufferSource },
+  ): ArrayBuffer {
+    const clientData = {
+      type,
+      challenge: toBase64url(toBytes(challenge)),
+      origin: this.origin,
+      crossOrigin: false,
+    }
+
+    return toArrayBuffer(new TextEncoder().encode(JSON.stringify(clientData)))
+  }
+}
+
+function notAllowedError(): DOMException {
+  return new DOMException(
+    'The operation either timed out or was not allowed.',
+    'NotAllowedError',
+  )
+}
+
+function getUserFlags(
+  userVerification: UserVerificationRequirement | undefined,
+): number {
+  return userVerification === 'discouraged' ? FLAG_UP : FLAG_UP | FLAG_UV
+}
+
+/**
+ * Evaluates a PRF salt with the credential's hmac-secret. The salt is hashed with the PRF
+ * context first, so PRF outputs cannot collide with a raw hmac-secret used by other clients.
+ */
+async function evaluatePrfSalt(
+  prfKey: CryptoKey,
+  salt: BufferSource,
+): Promise<ArrayBuffer> {
+  const hashedSalt = await sha256(
+    concatBytes(
+      new TextEncoder().encode(PRF_SALT_CONTEXT),
+      Uint8Array.of(0),
+      toBytes(salt),
+    ),
+  )
+
+  return crypto.subtle.sign('HMAC', prfKey, hashedSalt)
+}
+
+function toPublicKeyCredential(
+  rawId: Uint8Array,
+  response: AuthenticatorAttestationResponse | AuthenticatorAssertionResponse,
+  clientExtensionResults: ExtensionOutputs,
+): VirtualPublicKeyCredential {
+  return {
+    id: toCredentialId(rawId),
+    rawId: toArrayBuffer(rawId),
+    type: PUBLIC_KEY_CREDENTIAL_TYPE,
+    authenticatorAttachment: 'cross-platform',
+    response,
+    getClientExtensionResults: () => clientExtensionResults,
+  }
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+}
+
+function toCredentialId(id: BufferSource): Base64URLString {
+  return toBase64url(toBytes(id))
+}
+
+function toBase64url(value: Uint8Array | Base64URLString): Base64URLString {
+  const base64 =
+    typeof value === 'string'
+      ? normalizeCredentialId(value)
+      : arrayBufferToBase64String(toArrayBuffer(value))
+
+  return base64ToBase64url(base64)
+}
+
+function toBytes(source: BufferSource): Uint8Array {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source)
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.slice().buffer
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const bytes = new Uint8Array(
+    parts.reduce((length, part) => length + part.length, 0),
+  )
+
+  parts.reduce((offset, part) => {
+    bytes.set(part, offset)
+    return offset + part.length
+  }, 0)
+
+  return bytes
+}
+
+function uint32(value: number): Uint8Array {
+  return Uint8Array.of(
+    (value >>> 24) & 0xff,
+    (value >>> 16) & 0xff,
+    (value >>> 8) & 0xff,
+    value & 0xff,
+  )
+}
+
+// Encodes a P1363 signature, r and s of 32 bytes each, as a DER sequence of two integers
+function toDerSignature(signature: Uint8Array): Uint8Array {
+  const integers = [signature.slice(0, 32), signature.slice(32)].map(
+    (integer) => {
+      let start = 0
+
+      while (start < integer.length - 1 && integer[start] === 0) {
+        start += 1
+      }
+
+      // A set high bit would make the integer negative, so it is padded with a zero byte
+      const value =
+        integer[start] >= 0x80
+          ? concatBytes(Uint8Array.of(0), integer.slice(start))
+          : integer.slice(start)
+
+      return concatBytes(Uint8Array.of(0x02, value.length), value)
+    },
+  )
+  const body = concatBytes(...integers)
+
+  return concatBytes(Uint8Array.of(0x30, body.length), body)
+}
+
+type CborValue =
+  | number
+  | string
+  | Uint8Array
+  | Map<CborValue, CborValue>
+  | { [key: string]: CborValue }
+
+// CBOR major types used by attestation objects and COSE keys
+const CBOR_UNSIGNED = 0
+const CBOR_NEGATIVE = 1
+const CBOR_BYTES = 2
+const CBOR_TEXT = 3
+const CBOR_MAP = 5
+
+/**
+ * Encodes the subset of CBOR needed for attestation objects and COSE keys, integers, byte
+ * and text strings, and maps. Maps keep their insertion order, which verifiers accept.
+ */
+function encodeCbor(value: CborValue): Uint8Array {
+  if (typeof value === 'number') {
+    return value < 0
+      ? encodeCborHead(CBOR_NEGATIVE, -1 - value)
+      : encodeCborHead(CBOR_UNSIGNED, value)
+  }
+
+  if (typeof value === 'string') {
+    const text = new TextEncoder().encode(value)
+    return concatBytes(encodeCborHead(CBOR_TEXT, text.length), text)
+  }
+
+  if (value instanceof Uint8Array) {
+    return concatBytes(encodeCborHead(CBOR_BYTES, value.length), value)
+  }
+
+  const entries =
+    value instanceof Map ? Array.from(value.entries()) : Object.entries(value)
+
+  return concatBytes(
+    encodeCborHead(CBOR_MAP, entries.length),
+    ...entries.flatMap(([key, entry]) => [encodeCbor(key), encodeCbor(entry)]),
+  )
+}
+
+function encodeCborHead(majorType: number, length: number): Uint8Array {
+  const type = majorType << 5
+
+  if (length < 24) {
+    return Uint8Array.of(type | length)
+  }
+
+  if (length < 0x100) {
+    return Uint8Array.of(type | 24, length)
+  }
+
+  if (length < 0x10000) {
+    return Uint8Array.of(type | 25, length >> 8, length & 0xff)
+  }
+
+  return concatBytes(Uint8Array.of(type | 26), uint32(length))
+}
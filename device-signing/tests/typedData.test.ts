@@ -0,0 +1,187 @@
+import { ethers } from 'ethers'
+
+import { importSeedPhrase, signTypedData } from '../passkeyDevice'
+import { ETH_MAINNET_CHAIN_ID, ETH_TESTNET_CHAIN_ID } from '../utils/ethChains'
+import {
+  PasskeyErrorCodes,
+  createRawCredential,
+  navigatorTransport,
+  setWebAuthnTransport,
+} from '../utils/passkeyUtils'
+import {
+  TypedDataPayload,
+  describeTypedData,
+  parseTypedData,
+} from '../utils/typedData'
+import {
+  CREATION_OPTIONS,
+  ORIGIN,
+  RP_ID,
+  SEED_PHRASE,
+  getRequestOptions,
+} from './support/passkeyFixtures'
+import { VirtualAuthenticator } from './support/virtualAuthenticator'
+
+// The first ETH address of the seed phrase, at m/44'/60'/0'/0/0
+const ETH_ADDRESS = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94'
+
+const PERMIT: TypedDataPayload = {
+  domain: {
+    name: 'Dai Stablecoin',
+    version: '1',
+    chainId: ETH_MAINNET_CHAIN_ID,
+    verifyingContract: '0x6B175474E89094C44Da98b954EedeAC495271d0F',
+  },
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    Permit: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+      { name: 'value', type: 'uint256' },
+      { name: 'nonce', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+    ],
+  },
+  primaryType: 'Permit',
+  message: {
+    owner: ETH_ADDRESS,
+    spender: '0x000000000000000000000000000000000000dEaD',
+    value: '1000',
+    nonce: 0,
+    deadline: 1700000000,
+  },
+}
+
+describe('typed data', () => {
+  it('describes the fields of the primary type', () => {
+    const review = describeTypedData(PERMIT, ETH_MAINNET_CHAIN_ID)
+
+    expect(review.primaryType).toBe('Permit')
+    expect(review.fields).toContainEqual({
+      path: 'Permit.value',
+      type: 'uint256',
+      value: '1000',
+    })
+    expect(review.hash).toBe(
+      ethers.utils._TypedDataEncoder.hash(
+        PERMIT.domain,
+        { Permit: PERMIT.types.Permit },
+        PERMIT.message,
+      ),
+    )
+  })
+
+  it('rejects a domain for another chain', () => {
+    expect(() => parseTypedData(PERMIT, ETH_TESTNET_CHAIN_ID)).toThrow(
+      expect.objectContaining({
+        message: 'Typed data domain is for another chain',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it('rejects a domain without a chain when a chain is expected', () => {
+    const { chainId, ...domain } = PERMIT.domain
+    const types = {
+      ...PERMIT.types,
+      EIP712Domain: PERMIT.types.EIP712Domain.filter(
+        ({ name }) => name !== 'chainId',
+      ),
+    }
+
+    expect(chainId).toBe(ETH_MAINNET_CHAIN_ID)
+    expect(() =>
+      parseTypedData({ ...PERMIT, domain, types }, ETH_MAINNET_CHAIN_ID),
+    ).toThrow(
+      expect.objectContaining({
+        message: 'Typed data domain is not bound to a chain',
+        code: PasskeyErrorCodes.INVALID_SUBMISSION,
+      }),
+    )
+  })
+
+  it('rejects a primary type that does not match the types', () => {
+    expect(() =>
+      parseTypedData(
+        { ...PERMIT, primaryType: 'Transfer' },
+        ETH_MAINNET_CHAIN_ID,
+      ),
+    ).toThrow(
+      expect.objectContaining({ code: PasskeyErrorCodes.INVALID_SUBMISSION }),
+    )
+  })
+
+  describe('signTypedData', () => {
+    let credentialId: string
+
+    beforeEach(async () => {
+      setWebAuthnTransport(
+        new VirtualAuthenticator({ rpId: RP_ID, origin: ORIGIN }),
+      )
+
+      const registration = await createRawCredential(CREATION_OPTIONS)
+      credentialId = registration.id
+
+      await importSeedPhrase({
+        seedPhrase: SEED_PHRASE,
+        hardenedKeyPathPurpose: 44,
+        authenticationOptions: getRequestOptions(credentialId),
+        credentialId,
+      })
+    })
+
+    afterEach(() => {
+      setWebAuthnTransport(navigatorTransport)
+    })
+
+    const signParams = () => ({
+      keyPathPurpose: 44,
+      keyPathPurposeIsHardened: true,
+      // Coin type 60 and account 0, offset by 2^31 to derive them hardened
+      keyPathCoinType: 0x8000003c,
+      keyPathAccount: 0x80000000,
+      keyPathAddress: 0,
+      authenticationOptions: getRequestOptions(credentialId),
+      expectedChainId: ETH_MAINNET_CHAIN_ID,
+    })
+
+    it('signs typed data with the account key', async () => {
+      const signature = await signTypedData({
+        ...signParams(),
+        typedData: PERMIT,
+      })
+
+      expect(
+        ethers.utils.verifyTypedData(
+          PERMIT.domain,
+          { Permit: PERMIT.types.Permit },
+          PERMIT.message,
+          signature,
+        ),
+      ).toBe(ETH_ADDRESS)
+    })
+
+    it('rejects typed data for another chain before the prompt', async () => {
+      const authenticator = new VirtualAuthenticator({
+        rpId: RP_ID,
+        origin: ORIGIN,
+      })
+      const get = jest.spyOn(authenticator, 'get')
+      setWebAuthnTransport(authenticator)
+
+      await expect(
+        signTypedData({
+          ...signParams(),
+          typedData: PERMIT,
+          expectedChainId: ETH_TESTNET_CHAIN_ID,
+        }),
+      ).rejects.toMatchObject({ code: PasskeyErrorCodes.INVALID_SUBMISSION })
+      expect(get).not.toHaveBeenCalled()
+    })
+  })
+})
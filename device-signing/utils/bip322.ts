@@ -0,0 +1,467 @@
+import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// Taproot payments and signing require an ECC library with Schnorr and x-only support
+bitcoinjs.initEccLib(ecc)
+
+// Address types with a BIP322 signature, other accounts keep legacy message signatures
+export enum Bip322AddressType {
+  P2WPKH = 'P2WPKH',
+  P2WSH_MULTISIG = 'P2WSH_MULTISIG',
+  P2TR = 'P2TR',
+}
+
+export interface Bip322Signature {
+  address: string
+  /**
+   * Base64 encoded. The simple format, the witness stack of the signing transaction, for
+   * single signature addresses. For multisig addresses, the signing transaction as a PSBT
+   * holding this key's partial signature, combined into the full format with
+   * `finalizeBip322Multisig` once enough cosigners have signed.
+   */
+  signature: string
+}
+
+const MESSAGE_TAG = 'BIP0322-signed-message'
+
+// The single output of every signing transaction, an OP_RETURN without data
+const EMPTY_OP_RETURN = bitcoinjs.script.compile([bitcoinjs.opcodes.OP_RETURN])
+
+/**
+ * Returns the BIP322 address type for a wallet account's key path purpose, or null when
+ * the account signs legacy messages. Multisig accounts need the witness script of the
+ * address, which holds the cosigner keys.
+ */
+export function getBip322AddressType(
+  keyPathPurpose: number,
+  hasWitnessScript: boolean,
+): Bip322AddressType | null {
+  switch (keyPathPurpose) {
+    case 84:
+      return Bip322AddressType.P2WPKH
+    case 86:
+      return Bip322AddressType.P2TR
+    case 48:
+      return hasWitnessScript ? Bip322AddressType.P2WSH_MULTISIG : null
+    default:
+      return null
+  }
+}
+
+/**
+ * Signs a message with BIP322, proving control of the address derived at the path. The
+ * signature commits to a virtual transaction spending from the address, so it can be
+ * checked with `verifyBip322Message` without access to the chain. Keys, the taproot
+ * tweaked key included, are derived through the key session.
+ *
+ * @param witnessScript the sorted multisig script of the address, required for
+ * `Bip322AddressType.P2WSH_MULTISIG`, and must include the public key at the path
+ */
+export function signBip322Message({
+  message,
+  session,
+  path,
+  addressType,
+  witnessScript,
+  network = bitcoinjs.networks.bitcoin,
+}: {
+  message: string
+  session: KeySession
+  path: string
+  addressType: Bip322AddressType
+  witnessScript?: Buffer
+  network?: bitcoinjs.Network
+}): Bip322Signature {
+  const node = session.derivePath(path)
+
+  switch (addressType) {
+    case Bip322AddressType.P2WPKH: {
+      const payment = bitcoinjs.payments.p2wpkh({
+        pubkey: node.publicKey,
+        network,
+      })
+      const psbt = buildToSign(message, payment.output as Buffer)
+
+      psbt.signInput(0, node)
+
+      return {
+        address: payment.address as string,
+        signature: encodeWitness(extractWitness(psbt)),
+      }
+    }
+    case Bip322AddressType.P2TR: {
+      const internalPubkey = node.publicKey.subarray(1, 33)
+      const payment = bitcoinjs.payments.p2tr({ internalPubkey, network })
+      const psbt = buildToSign(message, payment.output as Buffer, {
+        tapInternalKey: internalPubkey,
+      })
+
+      const tweak = bitcoinjs.crypto.taggedHash('TapTweak', internalPubkey)
+      psbt.signTaprootInput(0, session.tweak(node, tweak))
+
+      return {
+        address: payment.address as string,
+        signature: encodeWitness(extractWitness(psbt)),
+      }
+    }
+    case Bip322AddressType.P2WSH_MULTISIG: {
+      if (witnessScript == null) {
+        throw new PasskeyError(
+          'Witness script required for a multisig message signature',
+          PasskeyErrorCodes.INVALID_SUBMISSION,
+        )
+      }
+
+      const { pubkeys } = bitcoinjs.payments.p2ms({ output: witnessScript })
+
+      if (!pubkeys?.some((pubkey) => pubkey.equals(node.publicKey))) {
+        throw new PasskeyError(
+          'Witness script does not include the key of this device',
+          PasskeyErrorCodes.WRONG_DEVICE,
+        )
+      }
+
+      const payment = bitcoinjs.payments.p2wsh({
+        redeem: { output: witnessScript },
+        network,
+      })
+      const psbt = buildToSign(message, payment.output as Buffer, {
+        witnessScript,
+      })
+
+      psbt.signInput(0, node)
+
+      return {
+        address: payment.address as string,
+        signature: psbt.toBase64(),
+      }
+    }
+  }
+}
+
+/**
+ * Combines the partially signed multisig PSBTs from `signBip322Message` into a BIP322
+ * signature in the full format, the base64 encoded signing transaction.
+ */
+export function finalizeBip322Multisig(psbts: string[]): string {
+  const [first, ...others] = psbts.map((psbt) =>
+    bitcoinjs.Psbt.fromBase64(psbt),
+  )
+
+  if (first == null) {
+    throw new PasskeyError(
+      'No signatures to combine',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  try {
+    first.combine(...others)
+    first.finalizeAllInputs()
+  } catch (error) {
+    throw new PasskeyError(
+      'Unable to finalize multisig message signature',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { reason: (error as Error).message },
+    )
+  }
+
+  return first.extractTransaction().toBuffer().toString('base64')
+}
+
+/**
+ * Verifies a BIP322 signature in the simple or full format for P2WPKH, P2WSH multisig and
+ * P2TR key path addresses. A signature in the full format is recognized by parsing as a
+ * signing transaction for the message and address: version 0, locktime 0, a single input
+ * spending `to_spend`, and a single empty OP_RETURN output of zero value.
+ */
+export function verifyBip322Message({
+  message,
+  address,
+  signature,
+  network = bitcoinjs.networks.bitcoin,
+}: {
+  message: string
+  address: string
+  signature: string
+  network?: bitcoinjs.Network
+}): boolean {
+  const scriptPubKey = bitcoinjs.address.toOutputScript(address, network)
+  const toSpend = buildToSpend(message, scriptPubKey)
+  const signatureBytes = Buffer.from(signature, 'base64')
+
+  const toSign =
+    parseFullSignature(signatureBytes, toSpend) ??
+    buildToSignTransaction(toSpend, decodeWitness(signatureBytes))
+
+  if (toSign == null) {
+    return false
+  }
+
+  // Malformed signatures or keys throw while decoding, and do not verify
+  try {
+    return verifyWitness(toSign, scriptPubKey)
+  } catch (error) {
+    return false
+  }
+}
+
+// BIP340 style tagged hash, bitcoinjs only provides the tags used by taproot
+function hashMessage(message: string): Buffer {
+  const tagHash = bitcoinjs.crypto.sha256(Buffer.from(MESSAGE_TAG, 'utf8'))
+
+  return bitcoinjs.crypto.sha256(
+    Buffer.concat([tagHash, tagHash, Buffer.from(message, 'utf8')]),
+  )
+}
+
+// The virtual transaction paying to the address, committing to the message
+function buildToSpend(
+  message: string,
+  scriptPubKey: Buffer,
+): bitcoinjs.Transaction {
+  const tx = new bitcoinjs.Transaction()
+  tx.version = 0
+  tx.locktime = 0
+  tx.addInput(
+    Buffer.alloc(32),
+    0xffffffff,
+    0,
+    bitcoinjs.script.compile([bitcoinjs.opcodes.OP_0, hashMessage(message)]),
+  )
+  tx.addOutput(scriptPubKey, 0)
+
+  return tx
+}
+
+// The virtual transaction spending `to_spend`, whose witness is the signature
+function buildToSign(
+  message: string,
+  scriptPubKey: Buffer,
+  inputFields: { tapInternalKey?: Buffer; witnessScript?: Buffer } = {},
+): bitcoinjs.Psbt {
+  const toSpend = buildToSpend(message, scriptPubKey)
+
+  const psbt = new bitcoinjs.Psbt()
+  psbt.setVersion(0)
+  psbt.setLocktime(0)
+  psbt.addInput({
+    hash: toSpend.getHash(),
+    index: 0,
+    sequence: 0,
+    witnessUtxo: { script: scriptPubKey, value: 0 },
+    ...inputFields,
+  })
+  psbt.addOutput({ script: EMPTY_OP_RETURN, value: 0 })
+
+  return psbt
+}
+
+function buildToSignTransaction(
+  toSpend: bitcoinjs.Transaction,
+  witness: Buffer[] | null,
+): bitcoinjs.Transaction | null {
+  if (witness == null) {
+    return null
+  }
+
+  const tx = new bitcoinjs.Transaction()
+  tx.version = 0
+  tx.locktime = 0
+  tx.addInput(toSpend.getHash(), 0, 0)
+  tx.addOutput(EMPTY_OP_RETURN, 0)
+  tx.setWitness(0, witness)
+
+  return tx
+}
+
+function parseFullSignature(
+  signatureBytes: Buffer,
+  toSpend: bitcoinjs.Transaction,
+): bitcoinjs.Transaction | null {
+  let tx: bitcoinjs.Transaction
+
+  try {
+    tx = bitcoinjs.Transaction.fromBuffer(signatureBytes)
+  } catch (error) {
+    return null
+  }
+
+  const isSigningTransaction =
+    tx.version === 0 &&
+    tx.locktime === 0 &&
+    tx.ins.length === 1 &&
+    tx.ins[0].hash.equals(toSpend.getHash()) &&
+    tx.ins[0].index === 0 &&
+    tx.outs.length === 1 &&
+    tx.outs[0].value === 0 &&
+    tx.outs[0].script.equals(EMPTY_OP_RETURN)
+
+  return isSigningTransaction ? tx : null
+}
+
+function extractWitness(psbt: bitcoinjs.Psbt): Buffer[] {
+  psbt.finalizeAllInputs()
+  return psbt.extractTransaction().ins[0].witness
+}
+
+function verifyWitness(
+  toSign: bitcoinjs.Transaction,
+  scriptPubKey: Buffer,
+): boolean {
+  const { witness } = toSign.ins[0]
+  const program = scriptPubKey.subarray(2)
+
+  // P2WPKH: a signature and the compressed public key of the program
+  if (scriptPubKey.length === 22 && scriptPubKey[0] === 0x00) {
+    const [encodedSignature, pubkey] = witness
+
+    if (
+      witness.length !== 2 ||
+      !bitcoinjs.crypto.hash160(pubkey).equals(program)
+    ) {
+      return false
+    }
+
+    const { signature, hashType } =
+      bitcoinjs.script.signature.decode(encodedSignature)
+    const scriptCode = bitcoinjs.payments.p2pkh({ pubkey }).output as Buffer
+    const hash = toSign.hashForWitnessV0(0, scriptCode, 0, hashType)
+
+    return ecc.verify(hash, pubkey, signature)
+  }
+
+  // P2WSH: an empty item, the signatures in key order, and the multisig script
+  if (scriptPubKey.length === 34 && scriptPubKey[0] === 0x00) {
+    const witnessScript = witness[witness.length - 1]
+
+    if (
+      witness.length < 3 ||
+      !bitcoinjs.crypto.sha256(witnessScript).equals(program)
+    ) {
+      return false
+    }
+
+    const { m, pubkeys } = bitcoinjs.payments.p2ms({ output: witnessScript })
+
+    if (m == null || pubkeys == null) {
+      return false
+    }
+
+    let keyIndex = 0
+    let validCount = 0
+
+    for (const encodedSignature of witness.slice(1, -1)) {
+      const { signature, hashType } =
+        bitcoinjs.script.signature.decode(encodedSignature)
+      const hash = toSign.hashForWitnessV0(0, witnessScript, 0, hashType)
+
+      while (
+        keyIndex < pubkeys.length &&
+        !ecc.verify(hash, pubkeys[keyIndex], signature)
+      ) {
+        keyIndex += 1
+      }
+
+      if (keyIndex === pubkeys.length) {
+        return false
+      }
+
+      keyIndex += 1
+      validCount += 1
+    }
+
+    return validCount >= m
+  }
+
+  // P2TR key path: a Schnorr signature, with a sighash byte unless SIGHASH_DEFAULT
+  if (scriptPubKey.length === 34 && scriptPubKey[0] === 0x51) {
+    const [signature] = witness
+
+    if (witness.length !== 1 || ![64, 65].includes(signature.length)) {
+      return false
+    }
+
+    const hashType =
+      signature.length === 65
+        ? signature[64]
+        : bitcoinjs.Transaction.SIGHASH_DEFAULT
+    const hash = toSign.hashForWitnessV1(0, [scriptPubKey], [0], hashType)
+
+    return ecc.verifySchnorr(hash, program, signature.subarray(0, 64))
+  }
+
+  // Other address types have no BIP322 signatures from passkey devices
+  return false
+}
+
+// Consensus encoding of a witness stack, as used by the BIP322 simple format
+function encodeWitness(witness: Buffer[]): string {
+  return Buffer.concat([
+    encodeVarInt(witness.length),
+    ...witness.flatMap((item) => [encodeVarInt(item.length), item]),
+  ]).toString('base64')
+}
+
+function decodeWitness(bytes: Buffer): Buffer[] | null {
+  let offset = 0
+
+  const readVarInt = (): number | null => {
+    if (offset >= bytes.length) {
+      return null
+    }
+
+    const prefix = bytes[offset]
+
+    if (prefix < 0xfd) {
+      offset += 1
+      return prefix
+    }
+
+    if (prefix === 0xfd && offset + 3 <= bytes.length) {
+      const value = bytes.readUInt16LE(offset + 1)
+      offset += 3
+      return value
+    }
+
+    return null
+  }
+
+  const count = readVarInt()
+
+  if (count == null) {
+    return null
+  }
+
+  const witness: Buffer[] = []
+
+  for (let index = 0; index < count; index += 1) {
+    const length = readVarInt()
+
+    if (length == null || offset + length > bytes.length) {
+      return null
+    }
+
+    witness.push(bytes.subarray(offset, offset + length))
+    offset += length
+  }
+
+  // Trailing bytes mean this is not a witness stack
+  return offset === bytes.length ? witness : null
+}
+
+// Witness items stay well below 0xffff bytes, larger lengths are not encoded
+function encodeVarInt(value: number): Buffer {
+  if (value < 0xfd) {
+    return Buffer.from([value])
+  }
+
+  const buffer = Buffer.alloc(3)
+  buffer[0] = 0xfd
+  buffer.writeUInt16LE(value, 1)
+
+  return buffer
+}
@@ -0,0 +1,119 @@
+import {
+  arrayBufferToBase64String,
+  arrayBufferToPlaintext,
+  base64ToUint8Array,
+  stringToArrayBuffer,
+} from '@casa/common/src/lib/encodingUtils'
+
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+type Base64String = string
+
+/**
+ * Domain separation for the HKDF step, so the PRF output evaluated for largeBlob encryption
+ * cannot be confused with a key derived from the same PRF output for any other purpose.
+ */
+const BLOB_KEY_INFO = 'casa-passkey-largeblob-v2'
+
+// AES-GCM recommends a 96-bit IV, prepended to the ciphertext so the blob is self-contained
+const AES_GCM_IV_BYTES = 12
+
+/**
+ * Derives a non-extractable AES-GCM key from the output of the WebAuthn PRF extension. The PRF
+ * output never leaves the authenticator ceremony result, and the derived key never leaves
+ * the Web Crypto API.
+ */
+async function deriveBlobKey(prf: Base64String): Promise<CryptoKey> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    base64ToUint8Array(prf),
+    'HKDF',
+    false,
+    ['deriveKey'],
+  )
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(),
+      info: stringToArrayBuffer(BLOB_KEY_INFO),
+    },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+/**
+ * Encrypts a plaintext with a key derived from a PRF output.
+ *
+ * @returns base64 encoded `iv || ciphertext`, where the ciphertext includes the GCM auth tag
+ */
+export async function encryptWithPrf(
+  plaintext: string,
+  prf: Base64String,
+): Promise<Base64String> {
+  const key = await deriveBlobKey(prf)
+  const iv = crypto.getRandomValues(new Uint8Array(AES_GCM_IV_BYTES))
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    stringToArrayBuffer(plaintext),
+  )
+
+  const combined = new Uint8Array(iv.byteLength + ciphertext.byteLength)
+  combined.set(iv, 0)
+  combined.set(new Uint8Array(ciphertext), iv.byteLength)
+
+  return arrayBufferToBase64String(combined.buffer)
+}
+
+/**
+ * Reverses `encryptWithPrf`. A PRF output from a different credential or salt fails the
+ * GCM authentication check rather than producing a wrong plaintext, and is reported as a
+ * corrupted blob like a truncated one.
+ */
+export async function decryptWithPrf(
+  encrypted: Base64String,
+  prf: Base64String,
+): Promise<string> {
+  let combined: Uint8Array
+
+  try {
+    combined = base64ToUint8Array(encrypted)
+  } catch (error) {
+    throw new PasskeyError(
+      'Encrypted large blob is not valid base64',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  if (combined.byteLength <= AES_GCM_IV_BYTES) {
+    throw new PasskeyError(
+      'Encrypted large blob is truncated',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  const key = await deriveBlobKey(prf)
+  const iv = combined.slice(0, AES_GCM_IV_BYTES)
+  const ciphertext = combined.slice(AES_GCM_IV_BYTES)
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv },
+      key,
+      ciphertext,
+    )
+
+    return arrayBufferToPlaintext(plaintext)
+  } catch (error) {
+    throw new PasskeyError(
+      'Unable to decrypt large blob with PRF output',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { base64ToUtf8, utf8ToBase64 } from '@casa/common/src/lib/encodingUtils'
+
+import { isSupportedKeyPathPurpose } from './descriptorUtils'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+type Base64String = string
+
+export enum PasskeySeedScheme {
+  BIP39 = 'BIP39',
+}
+
+/**
+ * Context stored alongside the seed phrase, so a blob read from a device can be checked
+ * against the wallet it is expected to belong to without a server round trip.
+ */
+export interface PasskeyBlobMetadata {
+  // Hex encoded master key fingerprint of the wallet derived from the seed phrase
+  fingerprint: string
+  // ISO 8601 timestamp of when the blob was encoded
+  createdAt: string
+  scheme: PasskeySeedScheme
+  // The key path purpose used by `exportXpub` to derive the wallet xpub
+  hardenedKeyPathPurpose: number | null
+  // Whether the wallet is derived with a BIP39 passphrase, which is never stored
+  hasPassphrase: boolean
+}
+
+export interface PasskeyBlobEnvelope {
+  // base64 seed phrase, or base64 `iv || ciphertext` when encrypted with a PRF-derived key
+  payload: Base64String
+  encrypted: boolean
+  metadata: PasskeyBlobMetadata
+  // Hex encoded SHA-256 over the payload and metadata
+  checksum: string
+}
+
+/**
+ * Serializes the checksummed fields in a fixed order, so the checksum does not depend on
+ * the key order produced by JSON.stringify on either side.
+ */
+function getEnvelopeChecksum(
+  envelope: Omit<PasskeyBlobEnvelope, 'checksum'>,
+): string {
+  const { payload, encrypted, metadata } = envelope
+
+  const fields: unknown[] = [
+    payload,
+    encrypted,
+    metadata.fingerprint,
+    metadata.createdAt,
+    metadata.scheme,
+    metadata.hardenedKeyPathPurpose,
+    metadata.hasPassphrase ?? false,
+  ]
+
+  const serialized = JSON.stringify(fields)
+
+  return bitcoinjs.crypto
+    .sha256(Buffer.from(serialized, 'utf8'))
+    .toString('hex')
+}
+
+export function serializeEnvelope(
+  envelope: Omit<PasskeyBlobEnvelope, 'checksum'>,
+): Base64String {
+  const checksum = getEnvelopeChecksum(envelope)
+  return utf8ToBase64(JSON.stringify({ ...envelope, checksum }))
+}
+
+/**
+ * Parses and integrity-checks an envelope. Each failure mode raises a distinct message so a
+ * corrupted or truncated blob can be told apart from a wrong device or an unsupported version.
+ */
+export function parseEnvelope(serialized: Base64String): PasskeyBlobEnvelope {
+  let envelope: Partial<PasskeyBlobEnvelope>
+
+  try {
+    envelope = JSON.parse(base64ToUtf8(serialized))
+  } catch (error) {
+    throw new PasskeyError(
+      'Large blob envelope is truncated or not valid JSON',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  const { payload, encrypted, metadata, checksum } = envelope
+
+  if (typeof payload !== 'string' || payload === '') {
+    throw new PasskeyError(
+      'Large blob envelope is missing its payload',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  if (typeof encrypted !== 'boolean' || typeof checksum !== 'string') {
+    throw new PasskeyError(
+      'Large blob envelope is missing its checksum or encryption flag',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  if (
+    metadata == null ||
+    typeof metadata.fingerprint !== 'string' ||
+    typeof metadata.createdAt !== 'string' ||
+    !Object.values(PasskeySeedScheme).includes(metadata.scheme) ||
+    typeof metadata.hasPassphrase !== 'boolean' ||
+    !isValidKeyPathPurpose(metadata.hardenedKeyPathPurpose)
+  ) {
+    throw new PasskeyError(
+      'Large blob envelope has missing or invalid metadata',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+      { metadata },
+    )
+  }
+
+  const expectedChecksum = getEnvelopeChecksum({ payload, encrypted, metadata })
+
+  if (checksum !== expectedChecksum) {
+    throw new PasskeyError(
+      'Large blob checksum does not match its contents',
+      PasskeyErrorCodes.CORRUPTED_BLOB,
+    )
+  }
+
+  return { payload, encrypted, metadata, checksum }
+}
+
+// The purpose is null for wallets exported before the purpose was chosen on import
+function isValidKeyPathPurpose(purpose: unknown): boolean {
+  return (
+    purpose === null ||
+    (typeof purpose === 'number' && isSupportedKeyPathPurpose(purpose))
+  )
+}
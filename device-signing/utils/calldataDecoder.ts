@@ -0,0 +1,320 @@
+import { BigNumber, ethers } from 'ethers'
+
+import { ETH_MAINNET_CHAIN_ID, ETH_TESTNET_CHAIN_ID } from './ethChains'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// What a call does, for calls with a known function
+export enum CallKind {
+  NATIVE_TRANSFER = 'NATIVE_TRANSFER',
+  ERC20_TRANSFER = 'ERC20_TRANSFER',
+  ERC20_APPROVE = 'ERC20_APPROVE',
+  // ERC-20 and ERC-721 `transferFrom` share a selector, and cannot be told apart offline
+  TOKEN_TRANSFER_FROM = 'TOKEN_TRANSFER_FROM',
+  ERC721_SAFE_TRANSFER = 'ERC721_SAFE_TRANSFER',
+  MULTI_SEND = 'MULTI_SEND',
+  ADD_OWNER = 'ADD_OWNER',
+  REMOVE_OWNER = 'REMOVE_OWNER',
+  SWAP_OWNER = 'SWAP_OWNER',
+  CHANGE_THRESHOLD = 'CHANGE_THRESHOLD',
+  UNKNOWN = 'UNKNOWN',
+}
+
+export interface DecodedCallArg {
+  name: string
+  type: string
+  value: string
+}
+
+// A call made by a Safe transaction, the value is a decimal string in wei
+export interface EncodedCall {
+  to: string
+  value: string
+  data: string
+  // Runs the called code in the context of the Safe, with access to its storage and funds
+  isDelegateCall: boolean
+}
+
+/**
+ * A call decoded with the ABI registry. Unknown functions keep the raw data, so a call is
+ * never hidden from review.
+ */
+export interface DecodedCall extends EncodedCall {
+  kind: CallKind
+  // The function signature, e.g. transfer(address,uint256), null for unknown functions
+  method: string | null
+  args: DecodedCallArg[]
+  // The calls of a MultiSend batch, in order
+  calls?: DecodedCall[]
+}
+
+// A function known to the ABI registry, in ethers human-readable form
+export interface AbiRegistryEntry {
+  fragment: string
+  kind: CallKind
+}
+
+interface RegisteredFunction {
+  fragment: ethers.utils.FunctionFragment
+  kind: CallKind
+}
+
+export const DEFAULT_ABI_ENTRIES: AbiRegistryEntry[] = [
+  {
+    fragment: 'function transfer(address to, uint256 amount)',
+    kind: CallKind.ERC20_TRANSFER,
+  },
+  {
+    fragment: 'function approve(address spender, uint256 amount)',
+    kind: CallKind.ERC20_APPROVE,
+  },
+  {
+    fragment:
+      'function transferFrom(address from, address to, uint256 amountOrTokenId)',
+    kind: CallKind.TOKEN_TRANSFER_FROM,
+  },
+  {
+    fragment:
+      'function safeTransferFrom(address from, address to, uint256 tokenId)',
+    kind: CallKind.ERC721_SAFE_TRANSFER,
+  },
+  {
+    fragment:
+      'function safeTransferFrom(address from, address to, uint256 tokenId, bytes data)',
+    kind: CallKind.ERC721_SAFE_TRANSFER,
+  },
+  {
+    fragment: 'function multiSend(bytes transactions)',
+    kind: CallKind.MULTI_SEND,
+  },
+  {
+    fragment:
+      'function addOwnerWithThreshold(address owner, uint256 _threshold)',
+    kind: CallKind.ADD_OWNER,
+  },
+  {
+    fragment:
+      'function removeOwner(address prevOwner, address owner, uint256 _threshold)',
+    kind: CallKind.REMOVE_OWNER,
+  },
+  {
+    fragment:
+      'function swapOwner(address prevOwner, address oldOwner, address newOwner)',
+    kind: CallKind.SWAP_OWNER,
+  },
+  {
+    fragment: 'function changeThreshold(uint256 _threshold)',
+    kind: CallKind.CHANGE_THRESHOLD,
+  },
+]
+
+/**
+ * Functions known for decoding, by selector. The registry is built from bundled ABIs and
+ * works offline, more functions can be registered for other contracts, e.g. a DeFi module.
+ */
+export class AbiRegistry {
+  private readonly functions = new Map<string, RegisteredFunction>()
+
+  constructor(entries: AbiRegistryEntry[] = DEFAULT_ABI_ENTRIES) {
+    entries.forEach((entry) => this.register(entry))
+  }
+
+  // Registers a function, replacing any function with the same selector
+  register({ fragment, kind }: AbiRegistryEntry): void {
+    // Parsed as any fragment first, `FunctionFragment.from` rejects the `function` keyword
+    const functionFragment = ethers.utils.FunctionFragment.from(
+      ethers.utils.Fragment.from(fragment),
+    )
+    const selector = ethers.utils.Interface.getSighash(functionFragment)
+
+    this.functions.set(selector, { fragment: functionFragment, kind })
+  }
+
+  get(selector: string): RegisteredFunction | undefined {
+    return this.functions.get(selector.toLowerCase())
+  }
+}
+
+export const defaultAbiRegistry = new AbiRegistry()
+
+// The MultiSend and MultiSendCallOnly deployments of the Safe contracts, v1.1.1 to v1.4.1
+const SAFE_MULTI_SEND_ADDRESSES = [
+  '0x8D29bE29923b68abfDD21e541b9374737B49cdAD',
+  '0xA238CBeb142c10Ef7Ad8442C6D1f9E89e07e7761',
+  '0x40A2aCCbd92BCA938b02010E17A5b8929b49130D',
+  '0x998739BFdAAdde7C933B942a68053933098f9EDa',
+  '0xA1dabEF33b3B82c7814B6D82A79e50F4AC44102B',
+  '0x38869bf66a61cF6bDB996A6aE40D5853Fd43B526',
+  '0x9641d764fc13c8B624c04430C7356C1C7C8102e2',
+]
+
+/**
+ * MultiSend contracts that a Safe can delegate call to batch calls, by chain ID. Any
+ * contract can declare a `multiSend` function, so the selector alone is not trusted.
+ */
+export const MULTI_SEND_ADDRESSES: Record<number, string[]> = {
+  [ETH_MAINNET_CHAIN_ID]: SAFE_MULTI_SEND_ADDRESSES,
+  [ETH_TESTNET_CHAIN_ID]: SAFE_MULTI_SEND_ADDRESSES,
+}
+
+// Whether a call is a MultiSend batch sent to a known MultiSend deployment of the chain
+export function isMultiSendDeployment(
+  { kind, to }: DecodedCall,
+  chainId: number,
+): boolean {
+  return (
+    kind === CallKind.MULTI_SEND &&
+    (MULTI_SEND_ADDRESSES[chainId] ?? []).some(
+      (address) => address.toLowerCase() === to.toLowerCase(),
+    )
+  )
+}
+
+// Selector length of the calldata, in bytes
+const SELECTOR_BYTES = 4
+
+// Operation, target, value and data length of a MultiSend transaction, in bytes
+const MULTI_SEND_HEADER_BYTES = 85
+
+/**
+ * Decodes the calldata of a call. Calls with an unknown selector, or arguments that do not
+ * decode with the registered function, are described as unknown with their raw data.
+ * MultiSend batches are unpacked and each call is decoded in turn.
+ */
+export function decodeCalldata(
+  { to, value, data, isDelegateCall }: EncodedCall,
+  registry: AbiRegistry = defaultAbiRegistry,
+): DecodedCall {
+  const call: DecodedCall = {
+    kind: CallKind.UNKNOWN,
+    to,
+    value,
+    data,
+    isDelegateCall,
+    method: null,
+    args: [],
+  }
+
+  if (ethers.utils.hexDataLength(data) === 0) {
+    return { ...call, kind: CallKind.NATIVE_TRANSFER }
+  }
+
+  if (ethers.utils.hexDataLength(data) < SELECTOR_BYTES) {
+    return call
+  }
+
+  const entry = registry.get(ethers.utils.hexDataSlice(data, 0, SELECTOR_BYTES))
+
+  if (entry == null) {
+    return call
+  }
+
+  let decoded: ethers.utils.Result
+
+  try {
+    decoded = ethers.utils.defaultAbiCoder.decode(
+      entry.fragment.inputs,
+      ethers.utils.hexDataSlice(data, SELECTOR_BYTES),
+    )
+  } catch (error) {
+    return call
+  }
+
+  const decodedCall: DecodedCall = {
+    ...call,
+    kind: entry.kind,
+    method: entry.fragment.format(),
+    args: entry.fragment.inputs.map((input, index) => ({
+      name: input.name,
+      type: input.type,
+      value: formatArg(decoded[index]),
+    })),
+  }
+
+  if (entry.kind === CallKind.MULTI_SEND) {
+    return {
+      ...decodedCall,
+      calls: unpackMultiSend(decoded[0]).map((batchedCall) =>
+        decodeCalldata(batchedCall, registry),
+      ),
+    }
+  }
+
+  return decodedCall
+}
+
+// The call and, for MultiSend batches, each batched call, in order
+export function flattenCalls(call: DecodedCall): DecodedCall[] {
+  return [call, ...(call.calls ?? []).flatMap(flattenCalls)]
+}
+
+/**
+ * Unpacks the transactions of a MultiSend batch, each encoded as the operation (1 byte), the
+ * target (20 bytes), the value (32 bytes), the data length (32 bytes) and the data.
+ */
+function unpackMultiSend(transactions: string): EncodedCall[] {
+  const bytes = ethers.utils.arrayify(transactions)
+  const calls: EncodedCall[] = []
+
+  let offset = 0
+
+  while (offset < bytes.length) {
+    const dataOffset = offset + MULTI_SEND_HEADER_BYTES
+
+    if (dataOffset > bytes.length) {
+      throw new PasskeyError(
+        'MultiSend transaction is truncated',
+        PasskeyErrorCodes.INVALID_SUBMISSION,
+        { offset },
+      )
+    }
+
+    const operation = bytes[offset]
+
+    if (operation > 1) {
+      throw new PasskeyError(
+        `Invalid MultiSend operation ${operation}`,
+        PasskeyErrorCodes.INVALID_SUBMISSION,
+        { offset },
+      )
+    }
+
+    const to = ethers.utils.getAddress(
+      ethers.utils.hexlify(bytes.slice(offset + 1, offset + 21)),
+    )
+    const value = BigNumber.from(bytes.slice(offset + 21, offset + 53))
+    const dataLength = BigNumber.from(bytes.slice(offset + 53, dataOffset))
+
+    if (dataLength.gt(bytes.length - dataOffset)) {
+      throw new PasskeyError(
+        'MultiSend transaction data is truncated',
+        PasskeyErrorCodes.INVALID_SUBMISSION,
+        { offset },
+      )
+    }
+
+    const dataEnd = dataOffset + dataLength.toNumber()
+
+    calls.push({
+      to,
+      value: value.toString(),
+      data: ethers.utils.hexlify(bytes.slice(dataOffset, dataEnd)),
+      isDelegateCall: operation === 1,
+    })
+
+    offset = dataEnd
+  }
+
+  return calls
+}
+
+function formatArg(value: unknown): string {
+  if (BigNumber.isBigNumber(value)) {
+    return value.toString()
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(formatArg).join(', ')}]`
+  }
+
+  return String(value)
+}
@@ -0,0 +1,182 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+/**
+ * The key origin of an exported xpub, as needed by external coordinators to import the
+ * device as a signer without deriving anything themselves.
+ */
+export interface PasskeyKeyOrigin {
+  // Hex encoded fingerprint of the master key
+  masterFingerprint: string
+  // Path from the master key to the account xpub, e.g. m/84'/0'/0'
+  derivationPath: string
+  // BIP380 key expression, e.g. [d34db33f/84'/0'/0']xpub...
+  descriptorKey: string
+}
+
+// An account xpub with its key origin, as returned by a batch export
+export interface PasskeyAccountXpub extends PasskeyKeyOrigin {
+  xpub: string
+}
+
+// Accounts with a standard derivation path, for batch xpub exports
+export enum AccountScriptType {
+  P2PKH = 'P2PKH',
+  P2SH_P2WPKH = 'P2SH_P2WPKH',
+  P2WPKH = 'P2WPKH',
+  P2TR = 'P2TR',
+  P2WSH_MULTISIG = 'P2WSH_MULTISIG',
+  ETH = 'ETH',
+}
+
+/**
+ * An account to export, either by script type, with the standard path for the network, or
+ * by an explicit derivation path from the master key, e.g. m/84'/0'/1'
+ */
+export type AccountXpubRequest =
+  | { scriptType: AccountScriptType; account?: number }
+  | { derivationPath: string }
+
+// BIP48 script type of the account path, native segwit (P2WSH) multisig
+const BIP48_SCRIPT_TYPE_P2WSH = 2
+
+// SLIP-44 coin type of ethereum accounts, on every network
+export const ETH_COIN_TYPE = 60
+
+const SCRIPT_TYPE_PURPOSES: Record<AccountScriptType, number> = {
+  [AccountScriptType.P2PKH]: 44,
+  [AccountScriptType.P2SH_P2WPKH]: 49,
+  [AccountScriptType.P2WPKH]: 84,
+  [AccountScriptType.P2TR]: 86,
+  [AccountScriptType.P2WSH_MULTISIG]: 48,
+  [AccountScriptType.ETH]: 44,
+}
+
+// Levels from the master key, each hardened with an apostrophe or not
+const DERIVATION_PATH_PATTERN = /^m(\/\d+'?)*$/
+
+// BIP32 child indexes are below 2^31, hardened indexes are offset by 2^31
+const HARDENED_OFFSET = 0x80000000
+
+/**
+ * Purposes with a standard account path, mapped to the extra hardened levels after the
+ * purpose, coin type and account. Single signature script types end at the account level.
+ */
+const ACCOUNT_PATH_SUFFIXES: Record<number, number[]> = {
+  44: [], // P2PKH, BIP44
+  48: [BIP48_SCRIPT_TYPE_P2WSH], // multisig, BIP48
+  49: [], // P2SH-P2WPKH, BIP49
+  84: [], // P2WPKH, BIP84
+  86: [], // P2TR, BIP86
+}
+
+// Whether a key path purpose has a standard account path, see `getAccountPath`
+export function isSupportedKeyPathPurpose(purpose: number): boolean {
+  return ACCOUNT_PATH_SUFFIXES[purpose] != null
+}
+
+/**
+ * Returns the account path for a key path purpose. Unsupported purposes keep the purpose
+ * level path used for the device xpub, so the key origin always describes the exported key.
+ */
+export function getAccountPath({
+  hardenedKeyPathPurpose,
+  coinType = 0,
+  account = 0,
+}: {
+  hardenedKeyPathPurpose?: number | null
+  coinType?: number
+  account?: number
+}): string {
+  if (!hardenedKeyPathPurpose) {
+    return 'm'
+  }
+
+  const suffix = ACCOUNT_PATH_SUFFIXES[hardenedKeyPathPurpose]
+
+  if (suffix == null) {
+    return `m/${hardenedKeyPathPurpose}'`
+  }
+
+  const levels = [hardenedKeyPathPurpose, coinType, account, ...suffix]
+
+  return `m/${levels.map((level) => `${level}'`).join('/')}`
+}
+
+/**
+ * Returns the derivation path of a batch export request. Explicit paths and accounts are
+ * validated, including the range of each index, so a malformed path fails before the
+ * passkey prompt rather than in `derivePath` after it.
+ *
+ * @param coinType the coin type of bitcoin accounts, see `getCoinType`
+ */
+export function getRequestPath(
+  request: AccountXpubRequest,
+  coinType: number,
+): string {
+  if ('derivationPath' in request) {
+    const indexes = request.derivationPath
+      .split('/')
+      .slice(1)
+      .map((level) => Number(level.replace("'", '')))
+
+    if (
+      !DERIVATION_PATH_PATTERN.test(request.derivationPath) ||
+      !indexes.every(isChildIndex)
+    ) {
+      throw new PasskeyError(
+        `Invalid derivation path ${request.derivationPath}`,
+        PasskeyErrorCodes.INVALID_SUBMISSION,
+      )
+    }
+
+    return request.derivationPath
+  }
+
+  if (request.account != null && !isChildIndex(request.account)) {
+    throw new PasskeyError(
+      `Invalid account ${request.account}`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  return getAccountPath({
+    hardenedKeyPathPurpose: SCRIPT_TYPE_PURPOSES[request.scriptType],
+    coinType:
+      request.scriptType === AccountScriptType.ETH ? ETH_COIN_TYPE : coinType,
+    account: request.account,
+  })
+}
+
+function isChildIndex(index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < HARDENED_OFFSET
+}
+
+/**
+ * Derives the xpub at a derivation path through a key session and describes it with its key
+ * origin, in the form Sparrow and other coordinators import. The key expression uses the
+ * apostrophe for hardened levels, as in the derivation path.
+ *
+ * @param network the version bytes of the xpub, bitcoin mainnet by default
+ */
+export function deriveAccountXpub(
+  session: KeySession,
+  derivationPath: string,
+  network?: bitcoinjs.Network,
+): PasskeyAccountXpub {
+  const masterFingerprint = session.getRoot().fingerprint.toString('hex')
+
+  const xpub = session.derivePath(derivationPath, network).neutered().toBase58()
+
+  // The origin drops the leading `m`, e.g. [d34db33f/84'/0'/0']
+  const origin = `${masterFingerprint}${derivationPath.slice(1)}`
+
+  return {
+    xpub,
+    masterFingerprint,
+    derivationPath,
+    descriptorKey: `[${origin}]${xpub}`,
+  }
+}
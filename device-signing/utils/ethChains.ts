@@ -0,0 +1,15 @@
+import COIN, { CoinType } from '../types/coin'
+
+export const ETH_MAINNET_CHAIN_ID = 1
+
+// Sepolia, the test network of testnet ETH accounts
+export const ETH_TESTNET_CHAIN_ID = 11155111
+
+export function isEthTestnet(coin: CoinType): boolean {
+  return coin === COIN.teth || coin === COIN.tethC
+}
+
+// The EIP-155 chain ID that signatures for the coin must be bound to
+export function getEthChainId(coin: CoinType): number {
+  return isEthTestnet(coin) ? ETH_TESTNET_CHAIN_ID : ETH_MAINNET_CHAIN_ID
+}
@@ -0,0 +1,110 @@
+import { BigNumber, ethers } from 'ethers'
+
+import { ToSign } from '../types/toSign'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// EIP-2718 types of directly signed transactions, access list transactions are not used
+export enum EthTransactionType {
+  LEGACY = 0,
+  EIP1559 = 2,
+}
+
+// A signed ETH transaction, ready for `eth_sendRawTransaction`
+export interface SignedEthTransaction {
+  // Hex encoded serialized transaction with the signature
+  rawTransaction: string
+  // The transaction hash it is broadcast and tracked under
+  hash: string
+}
+
+/**
+ * Validates the fields of a plain ETH transaction, signed by the account without a Safe.
+ * EIP-1559 fees are used when given, legacy transactions need a gas price. The chain ID is
+ * set from the coin, and a transaction for another chain is rejected so the signature cannot
+ * be broadcast there.
+ *
+ * @param chainId the chain of the signing account, see `getEthChainId`
+ */
+export function parseEthTransaction(
+  toSign: ToSign,
+  chainId: number,
+): ethers.providers.TransactionRequest {
+  const fields = toSign as unknown as Record<string, unknown>
+
+  const invalidField = (name: string): PasskeyError =>
+    new PasskeyError(
+      `Invalid ETH transaction ${name}`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { field: name, value: String(fields[name]) },
+    )
+
+  const getUint = (name: string, fallback?: string): BigNumber => {
+    let amount: BigNumber
+
+    try {
+      amount = BigNumber.from(fields[name] ?? fallback)
+    } catch (error) {
+      throw invalidField(name)
+    }
+
+    if (amount.isNegative()) {
+      throw invalidField(name)
+    }
+
+    return amount
+  }
+
+  const { to, data = '0x' } = fields
+
+  if (typeof to !== 'string' || !ethers.utils.isAddress(to)) {
+    throw invalidField('to')
+  }
+
+  if (typeof data !== 'string' || !ethers.utils.isHexString(data)) {
+    throw invalidField('data')
+  }
+
+  if (fields.chainId != null && !getUint('chainId').eq(chainId)) {
+    throw new PasskeyError(
+      'ETH transaction is for another chain',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { chainId: String(fields.chainId), expectedChainId: chainId },
+    )
+  }
+
+  const nonce = getUint('nonce')
+
+  // Nonces are numbers for ethers, a larger one would throw a raw overflow error
+  if (nonce.gt(String(Number.MAX_SAFE_INTEGER))) {
+    throw invalidField('nonce')
+  }
+
+  const defaultType =
+    fields.maxFeePerGas != null
+      ? EthTransactionType.EIP1559
+      : EthTransactionType.LEGACY
+  const type = Number(fields.type ?? defaultType)
+
+  const transaction: ethers.providers.TransactionRequest = {
+    to: ethers.utils.getAddress(to),
+    value: getUint('value', '0'),
+    data,
+    nonce: nonce.toNumber(),
+    gasLimit: getUint('gasLimit'),
+    chainId,
+    type,
+  }
+
+  switch (type) {
+    case EthTransactionType.EIP1559:
+      return {
+        ...transaction,
+        maxFeePerGas: getUint('maxFeePerGas'),
+        maxPriorityFeePerGas: getUint('maxPriorityFeePerGas'),
+      }
+    case EthTransactionType.LEGACY:
+      return { ...transaction, gasPrice: getUint('gasPrice') }
+    default:
+      throw invalidField('type')
+  }
+}
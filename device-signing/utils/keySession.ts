@@ -0,0 +1,164 @@
+import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
+import BIP32Factory, { BIP32Interface } from 'bip32'
+import * as bip39 from 'bip39'
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+const bip32 = BIP32Factory(ecc)
+
+// Lifetime of a key session, long enough to sign a batch after the passkey prompt
+export const KEY_SESSION_TTL_MS = 60000
+
+/**
+ * Holds the seed of a passkey-held seed phrase while it is used for signing, and every node
+ * derived through it. The session expires after a hard TTL, and `dispose` overwrites the seed
+ * and the private keys and chain codes of its nodes, so they do not stay on the heap until
+ * garbage collection.
+ *
+ * The mnemonic is a JS string and cannot be overwritten, it is only used to create the
+ * session and is not kept. Keys copied out of a node, e.g. into an ethers `Wallet`, are out
+ * of the session's reach and must not outlive the signing call.
+ */
+export class KeySession {
+  private seed: Buffer | null
+
+  private readonly nodes: BIP32Interface[] = []
+
+  private readonly expiryTimeout: ReturnType<typeof setTimeout>
+
+  constructor(seed: Buffer, ttlMs: number = KEY_SESSION_TTL_MS) {
+    this.seed = seed
+    this.expiryTimeout = setTimeout(() => this.dispose(), ttlMs)
+  }
+
+  static fromSeedPhrase(
+    seedPhrase: string,
+    passphrase?: string,
+    ttlMs?: number,
+  ): KeySession {
+    return new KeySession(
+      bip39.mnemonicToSeedSync(seedPhrase, passphrase),
+      ttlMs,
+    )
+  }
+
+  get isDisposed(): boolean {
+    return this.seed == null
+  }
+
+  // The master key, with the version bytes of the bitcoin network when given
+  getRoot(network?: bitcoinjs.Network): BIP32Interface {
+    return this.track(bip32.fromSeed(this.getSeed(), network))
+  }
+
+  /**
+   * Derives the node at a path from the master key, e.g. m/84'/0'/0'/0/0. Each level is
+   * derived in turn, so the intermediate nodes are overwritten on disposal as well.
+   */
+  derivePath(path: string, network?: bitcoinjs.Network): BIP32Interface {
+    const [master, ...levels] = path.split('/')
+
+    if (master !== 'm') {
+      throw new PasskeyError(
+        `Invalid derivation path ${path}`,
+        PasskeyErrorCodes.INVALID_SUBMISSION,
+      )
+    }
+
+    return levels.reduce(
+      (node, level) =>
+        this.track(
+          level.endsWith("'")
+            ? node.deriveHardened(parseInt(level, 10))
+            : node.derive(parseInt(level, 10)),
+        ),
+      this.getRoot(network),
+    )
+  }
+
+  /**
+   * Tweaks the key of a node derived through the session, as `BIP32Interface.tweak` does for
+   * a taproot key path signature, so the tweaked key is overwritten on disposal as well. A key
+   * whose public key has an odd y coordinate is negated first, see BIP341.
+   */
+  tweak(node: BIP32Interface, tweakHash: Buffer): BIP32Interface {
+    // Nodes of a disposed session are zeroed, and must not be tweaked into a valid key
+    this.getSeed()
+
+    if (node.privateKey == null) {
+      throw new PasskeyError(
+        'Cannot tweak a node without a private key',
+        PasskeyErrorCodes.INCORRECT_STATE,
+      )
+    }
+
+    const hasOddY = node.publicKey[0] === 3
+    const privateKey = hasOddY
+      ? toBuffer(ecc.privateNegate(node.privateKey))
+      : node.privateKey
+    const tweakedKey = ecc.privateAdd(privateKey, tweakHash)
+
+    if (hasOddY) {
+      privateKey.fill(0)
+    }
+
+    if (tweakedKey == null) {
+      throw new PasskeyError(
+        'Tweaked private key is invalid',
+        PasskeyErrorCodes.INVALID_PSBT,
+      )
+    }
+
+    return this.track(
+      bip32.fromPrivateKey(toBuffer(tweakedKey), node.chainCode, node.network),
+    )
+  }
+
+  // Overwrites the seed and the keys of every derived node, the session is unusable after
+  dispose(): void {
+    clearTimeout(this.expiryTimeout)
+
+    this.seed?.fill(0)
+    this.seed = null
+
+    this.nodes.forEach((node) => {
+      node.privateKey?.fill(0)
+      node.chainCode.fill(0)
+    })
+    this.nodes.length = 0
+  }
+
+  private getSeed(): Buffer {
+    if (this.seed == null) {
+      throw new PasskeyError(
+        'Key session expired or disposed',
+        PasskeyErrorCodes.SESSION_EXPIRED,
+      )
+    }
+
+    return this.seed
+  }
+
+  private track(node: BIP32Interface): BIP32Interface {
+    this.nodes.push(node)
+    return node
+  }
+}
+
+// Wraps the bytes returned by the ECC library without copying, so they can be overwritten
+function toBuffer(bytes: Uint8Array): Buffer {
+  return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+}
+
+// Runs a function with a key session, and disposes the session once the function settles
+export async function withKeySession<T>(
+  session: KeySession,
+  use: (session: KeySession) => Promise<T>,
+): Promise<T> {
+  try {
+    return await use(session)
+  } finally {
+    session.dispose()
+  }
+}
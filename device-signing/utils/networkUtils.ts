@@ -0,0 +1,62 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+/**
+ * The bitcoin network a passkey wallet is used on. Testnet, signet and regtest share
+ * `tpub` extended keys and coin type 1, and differ only in address encoding.
+ */
+export enum BitcoinNetwork {
+  MAINNET = 'MAINNET',
+  TESTNET = 'TESTNET',
+  SIGNET = 'SIGNET',
+  REGTEST = 'REGTEST',
+}
+
+// BIP44 coin types, every test network uses the testnet coin type
+const MAINNET_COIN_TYPE = 0
+const TESTNET_COIN_TYPE = 1
+
+/**
+ * Returns the bitcoinjs network parameters, used for xpub serialization and address
+ * encoding. bitcoinjs has no signet parameters, signet uses the testnet version bytes
+ * and `tb` addresses.
+ */
+export function getBitcoinjsNetwork(
+  network: BitcoinNetwork = BitcoinNetwork.MAINNET,
+): bitcoinjs.Network {
+  switch (network) {
+    case BitcoinNetwork.TESTNET:
+    case BitcoinNetwork.SIGNET:
+      return bitcoinjs.networks.testnet
+    case BitcoinNetwork.REGTEST:
+      return bitcoinjs.networks.regtest
+    case BitcoinNetwork.MAINNET:
+    default:
+      return bitcoinjs.networks.bitcoin
+  }
+}
+
+export function getCoinType(
+  network: BitcoinNetwork = BitcoinNetwork.MAINNET,
+): number {
+  return network === BitcoinNetwork.MAINNET
+    ? MAINNET_COIN_TYPE
+    : TESTNET_COIN_TYPE
+}
+
+/**
+ * Resolves the network from an explicit network when one is known, falling back to the
+ * `isTestnet` flag used for coins, e.g. `COIN.tbtc`.
+ */
+export function resolveBitcoinNetwork({
+  network,
+  isTestnet,
+}: {
+  network?: BitcoinNetwork | null
+  isTestnet?: boolean
+}): BitcoinNetwork {
+  if (network != null) {
+    return network
+  }
+
+  return isTestnet === true ? BitcoinNetwork.TESTNET : BitcoinNetwork.MAINNET
+}
@@ -30,6 +30,15 @@ export enum PasskeyErrorCodes {
   DUPLICATE = 'DUPLICATE',
   FAILED_READ = 'UNABLE_TO_READ',
   FAILED_WRITE = 'UNABLE_TO_WRITE',
+  BLOB_TOO_LARGE = 'BLOB_TOO_LARGE',
+  CORRUPTED_BLOB = 'CORRUPTED_BLOB',
+  PASSPHRASE_REQUIRED = 'PASSPHRASE_REQUIRED',
+  INVALID_PASSPHRASE = 'INVALID_PASSPHRASE',
+  INVALID_PSBT = 'INVALID_PSBT',
+  WRONG_DEVICE = 'WRONG_DEVICE',
+  INVALID_CHANGE = 'INVALID_CHANGE',
+  HASH_MISMATCH = 'HASH_MISMATCH',
+  SESSION_EXPIRED = 'SESSION_EXPIRED',
   USER_EXITED = 'USER_EXITED',
   UNAUTHORIZED = 'UNAUTHORIZED',
   NOT_ALLOWED = 'NOT_ALLOWED',
@@ -47,6 +56,69 @@ export enum PasskeyErrorCodes {
  */
 const PROMPT_TIMEOUT_MS = 60000
 
+/**
+ * CTAP 2.1 only guarantees 1024 bytes for the serialized largeBlob array, which is shared by
+ * every credential on the authenticator and adds a nonce, auth tag and CBOR framing per entry.
+ * Blobs are checked uncompressed against this budget before the prompt, so an oversized blob
+ * fails early instead of leaving the user with a rejected write.
+ */
+export const LARGE_BLOB_MAX_BYTES = 960
+
+// Raised with `FAILED_READ` by `readLargeBlob` for a device that holds no blob, including a wiped device
+export const LARGE_BLOB_EMPTY_MESSAGE = 'Large blob empty'
+
+// Whether an error is the `FAILED_READ` of a device that holds no blob, see `readLargeBlob`
+export function isEmptyBlobError(error: unknown): boolean {
+  return (
+    error instanceof PasskeyError &&
+    error.code === PasskeyErrorCodes.FAILED_READ &&
+    error.message === LARGE_BLOB_EMPTY_MESSAGE
+  )
+}
+
+/**
+ * The credential ceremonies the passkey utils run, with the signatures of
+ * `navigator.credentials`. Browsers use the navigator transport, and tests use a software
+ * authenticator, see `tests/support/virtualAuthenticator.ts`, to run the same ceremonies in
+ * Node or jsdom.
+ */
+export interface WebAuthnTransport {
+  get(options: CredentialRequestOptions): Promise<Credential | null>
+  create(options: CredentialCreationOptions): Promise<Credential | null>
+}
+
+// Looks up navigator.credentials on each ceremony, so the module loads where it is undefined
+export const navigatorTransport: WebAuthnTransport = {
+  get: (options) => navigator.credentials.get(options),
+  create: (options) => navigator.credentials.create(options),
+}
+
+let webAuthnTransport: WebAuthnTransport = navigatorTransport
+
+// Replaces the transport of every ceremony, reset with `navigatorTransport`
+export function setWebAuthnTransport(transport: WebAuthnTransport): void {
+  webAuthnTransport = transport
+}
+
+/**
+ * The largeBlob and PRF extension inputs, which the DOM types do not define. Extending the
+ * DOM inputs lets a typed extensions object be passed to a ceremony without suppressions.
+ */
+interface LargeBlobPrfExtensions extends AuthenticationExtensionsClientInputs {
+  largeBlob?: {
+    support?: 'required' | 'preferred'
+    read?: boolean
+    write?: BufferSource
+  }
+  prf?: { eval?: { first: BufferSource; second?: BufferSource } }
+}
+
+// The largeBlob and PRF extension outputs, which the DOM types do not define
+interface LargeBlobPrfExtensionOutputs {
+  largeBlob?: { blob?: Buffer; written?: boolean }
+  prf?: { results?: { first?: ArrayBuffer } }
+}
+
 /**
  * Accepts parameters from server-side options requests and re-encodes to accommodate the
  * raw, navigator.credentials.get() method since simplewebauthn does not support largeBlob
@@ -71,7 +143,21 @@ export const writeLargeBlob = async ({
   const bufferId = base64ToUint8Array(base64Id)
   const blobBuffer = stringToArrayBuffer(blob)
 
-  const assertion = await navigator.credentials.get({
+  if (blobBuffer.byteLength > LARGE_BLOB_MAX_BYTES) {
+    throw new PasskeyError(
+      'Large blob exceeds the authenticator storage limit',
+      PasskeyErrorCodes.BLOB_TOO_LARGE,
+      { size: blobBuffer.byteLength, limit: LARGE_BLOB_MAX_BYTES },
+    )
+  }
+
+  const extensions: LargeBlobPrfExtensions = {
+    largeBlob: {
+      write: blobBuffer,
+    },
+  }
+
+  const assertion = await webAuthnTransport.get({
     publicKey: {
       challenge: bufferChallenge,
       allowCredentials: [
@@ -81,12 +167,7 @@ export const writeLargeBlob = async ({
         },
       ],
       timeout: PROMPT_TIMEOUT_MS,
-      extensions: {
-        // @ts-expect-error - navigator credentials do not provide type definitions for largeBlob
-        largeBlob: {
-          write: blobBuffer,
-        },
-      },
+      extensions,
     },
   })
 
@@ -95,7 +176,7 @@ export const writeLargeBlob = async ({
   )?.getClientExtensionResults()
 
   const isLargeBlobWritten = (
-    clientExtensionResults as { largeBlob?: { written: boolean } }
+    clientExtensionResults as LargeBlobPrfExtensionOutputs
   ).largeBlob?.written
 
   if (isLargeBlobWritten !== true) {
@@ -143,16 +224,64 @@ export const writeLargeBlob = async ({
   }
 }
 
+/**
+ * Overwrites the largeBlob with an empty blob, for a device that is removed or replaced. The
+ * write is confirmed through `largeBlob.written` like any other write, and a subsequent read
+ * fails with `PasskeyErrorCodes.FAILED_READ` and `LARGE_BLOB_EMPTY_MESSAGE`.
+ *
+ * The authentication response should be verified by the server like any other write
+ */
+export const wipeLargeBlob = async ({
+  options,
+  credentialId,
+}: {
+  options: PublicKeyCredentialRequestOptionsJSON
+  credentialId: Base64URLString
+}): Promise<{ authenticationResponse: AuthenticationResponseJSON }> =>
+  writeLargeBlob({ options, credentialId, blob: '' })
+
+/**
+ * Builds the PRF extension input for an authentication ceremony. The salt is stored per
+ * credential by the server (see `PasskeySupportOutputs.prfSalt`), so a credential always
+ * evaluates to the same secret for the same salt.
+ */
+function getPrfEvalInput(prfSalt: Base64String) {
+  const base64Salt = normalizeBase64OrBase64UrlString(prfSalt)
+
+  return {
+    eval: {
+      first: base64ToUint8Array(base64Salt),
+    },
+  }
+}
+
+function getPrfResult(
+  clientExtensionResults: AuthenticationExtensionsClientOutputs,
+): Base64String | null {
+  const { prf } = clientExtensionResults as LargeBlobPrfExtensionOutputs
+
+  if (prf?.results?.first == null) {
+    return null
+  }
+
+  return arrayBufferToBase64String(prf.results.first)
+}
+
 /**
  * Accepts parameters from server-side options requests and re-encodes to accommodate the
  * raw, navigator.credentials.get() method since simplewebauthn does not support largeBlob
  * extensions on passkey authentication requests.
+ *
+ * When a PRF salt is given, the PRF output is evaluated in the same ceremony so that an
+ * encrypted blob can be decrypted without a second prompt.
  */
 export const readLargeBlob = async ({
   options,
+  prfSalt,
 }: {
   options: PublicKeyCredentialRequestOptionsJSON
-}): Promise<string> => {
+  prfSalt?: Base64String
+}): Promise<LargeBlobReadResult> => {
   const base64Challenge = base64urlToBase64(options.challenge)
   const bufferChallenge = base64StringToArrayBuffer(base64Challenge)
 
@@ -165,17 +294,19 @@ export const readLargeBlob = async ({
     }
   })
 
-  const assertion = await navigator.credentials.get({
+  const extensions: LargeBlobPrfExtensions = {
+    largeBlob: {
+      read: true,
+    },
+    prf: prfSalt != null ? getPrfEvalInput(prfSalt) : undefined,
+  }
+
+  const assertion = await webAuthnTransport.get({
     publicKey: {
       challenge: bufferChallenge,
       allowCredentials,
       timeout: PROMPT_TIMEOUT_MS,
-      extensions: {
-        // @ts-expect-error - navigator credentials do not provide type definitions for largeBlob
-        largeBlob: {
-          read: true,
-        },
-      },
+      extensions,
     },
   })
 
@@ -183,19 +314,21 @@ export const readLargeBlob = async ({
     assertion as PublicKeyCredential
   ).getClientExtensionResults()
 
-  // @ts-expect-error - navigator credentials do not provide type support for clientExtensionResults
-  if (clientExtensionResults.largeBlob == null) {
+  const { largeBlob } = clientExtensionResults as LargeBlobPrfExtensionOutputs
+
+  if (largeBlob == null) {
     throw new PasskeyError(
       'Unable to read large blob',
       PasskeyErrorCodes.FAILED_READ,
     )
   }
 
-  // @ts-expect-error - navigator credentials do not provide type support for clientExtensionResults
-  const largeBlob = clientExtensionResults.largeBlob as { blob?: Buffer }
-
-  if (largeBlob.blob == null) {
-    throw new PasskeyError('Large blob empty', PasskeyErrorCodes.FAILED_READ)
+  // A wiped device holds a zero-length blob, reported the same as a device never written to
+  if (largeBlob.blob == null || largeBlob.blob.byteLength === 0) {
+    throw new PasskeyError(
+      LARGE_BLOB_EMPTY_MESSAGE,
+      PasskeyErrorCodes.FAILED_READ,
+    )
   }
 
   const { blob: blobBuffer } = largeBlob
@@ -208,7 +341,82 @@ export const readLargeBlob = async ({
     )
   }
 
-  return blobString
+  const prf = getPrfResult(clientExtensionResults)
+
+  if (prfSalt != null && prf == null) {
+    throw new PasskeyError(
+      'Failed to read PRF from PRF-holding credential',
+      PasskeyErrorCodes.FAILED_READ,
+    )
+  }
+
+  // Identifies which of the allowed credentials was used, for a follow-up write ceremony
+  const { rawId } = assertion as PublicKeyCredential
+  const credentialId = base64ToBase64url(arrayBufferToBase64String(rawId))
+
+  return {
+    blob: blobString,
+    prf: prf ?? undefined,
+    credentialId,
+  }
+}
+
+/**
+ * Evaluates the PRF extension for a single credential without touching the largeBlob. The
+ * PRF output is needed to encrypt a blob before it is written, and a largeBlob write cannot
+ * return a PRF output in time to be used for its own payload.
+ *
+ * The assertion from this ceremony is never sent to the server, so the options from the
+ * subsequent write ceremony may be reused here.
+ */
+export const evaluatePrf = async ({
+  options,
+  credentialId,
+  prfSalt,
+}: {
+  options: PublicKeyCredentialRequestOptionsJSON
+  credentialId: Base64URLString
+  prfSalt: Base64String
+}): Promise<Base64String> => {
+  const base64Challenge = base64urlToBase64(options.challenge)
+  const bufferChallenge = base64StringToArrayBuffer(base64Challenge)
+
+  const base64Id = normalizeCredentialId(credentialId)
+  const bufferId = base64ToUint8Array(base64Id)
+
+  const extensions: LargeBlobPrfExtensions = {
+    prf: getPrfEvalInput(prfSalt),
+  }
+
+  const assertion = await webAuthnTransport.get({
+    publicKey: {
+      challenge: bufferChallenge,
+      allowCredentials: [
+        {
+          type: PUBLIC_KEY_CREDENTIAL_TYPE,
+          id: bufferId,
+        },
+      ],
+      timeout: PROMPT_TIMEOUT_MS,
+      extensions,
+    },
+  })
+
+  const clientExtensionResults = (
+    assertion as PublicKeyCredential
+  )?.getClientExtensionResults()
+
+  const prf =
+    clientExtensionResults != null ? getPrfResult(clientExtensionResults) : null
+
+  if (prf == null) {
+    throw new PasskeyError(
+      'Failed to read PRF from PRF-holding credential',
+      PasskeyErrorCodes.FAILED_READ,
+    )
+  }
+
+  return prf
 }
 
 /**
@@ -382,12 +590,18 @@ export async function createRawCredential(
   options: PublicKeyCredentialCreationOptionsJSON,
 ): Promise<RegistrationResponseJSON> {
   const rawOptions = encodeAttestationOptionsToRaw(options)
-  const rawResponse = await navigator.credentials.create(rawOptions)
+  const rawResponse = await webAuthnTransport.create(rawOptions)
   return encodeAttestationResponseToVerify(
     rawResponse,
   ) as RegistrationResponseJSON
 }
 
+export type LargeBlobReadResult = {
+  blob: string
+  prf?: Base64String
+  credentialId: Base64URLString
+}
+
 export type SanitizedAuthenticationResponse = {
   sanitizedAuthenticationResponse: AuthenticationResponseJSON
   largeBlob?: Base64String
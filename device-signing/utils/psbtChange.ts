@@ -0,0 +1,416 @@
+import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
+import BIP32Factory, { BIP32Interface } from 'bip32'
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// Taproot change outputs are rebuilt from their internal key, which requires x-only support
+bitcoinjs.initEccLib(ecc)
+
+type Bip32Derivation = {
+  masterFingerprint: Buffer
+  pubkey: Buffer
+  path: string
+}
+
+// A cosigner xpub of the vault, with the origin of the xpub within its cosigner's wallet
+type Cosigner = {
+  node: BIP32Interface
+  masterFingerprint: Buffer
+  path: string
+}
+
+// How the multisig script of the vault is wrapped in its output scripts
+enum MultisigScriptType {
+  P2SH = 'P2SH',
+  P2WSH = 'P2WSH',
+  P2SH_P2WSH = 'P2SH_P2WSH',
+}
+
+type MultisigPolicy = {
+  threshold: number
+  cosignerCount: number
+  scriptType: MultisigScriptType
+}
+
+export interface ChangeCheck {
+  // Outputs that claim to be change and rebuild to the wallet's output script
+  changeIndexes: number[]
+  // Outputs that claim to be change, but do not pay back to the wallet
+  mismatchedIndexes: number[]
+}
+
+const bip32 = BIP32Factory(ecc)
+
+/**
+ * Checks that the outputs of a multisig PSBT claiming to be change pay back to the same
+ * vault. An output claims to be change when it carries BIP32 derivation data, and the
+ * multisig script of such an output is rebuilt from those derivations and the cosigner
+ * xpubs in the PSBT's global xpub map.
+ *
+ * The cosigner xpubs are trusted only after the scripts of the inputs being spent are
+ * rebuilt from them, so a PSBT cannot swap in xpubs of another wallet to vouch for a change
+ * output it controls. A multisig PSBT without cosigner xpubs is rejected rather than left
+ * unchecked, since the PSBT author could otherwise drop them to skip the check.
+ *
+ * @returns null when the PSBT does not spend multisig inputs
+ */
+export function verifyMultisigChange(psbt: bitcoinjs.Psbt): ChangeCheck | null {
+  const policy = getMultisigPolicy(psbt)
+
+  if (policy == null) {
+    return null
+  }
+
+  const cosigners = getCosigners(psbt)
+
+  if (cosigners.length === 0) {
+    throw new PasskeyError(
+      'Multisig PSBT is missing the cosigner xpubs',
+      PasskeyErrorCodes.INVALID_PSBT,
+    )
+  }
+
+  if (cosigners.length !== policy.cosignerCount) {
+    throw new PasskeyError(
+      'PSBT cosigner xpubs do not match the multisig inputs',
+      PasskeyErrorCodes.INVALID_PSBT,
+      { cosignerCount: cosigners.length, expected: policy.cosignerCount },
+    )
+  }
+
+  psbt.data.inputs.forEach((input, index) => {
+    const multisigScript = input.witnessScript ?? input.redeemScript
+    const rebuiltScript = rebuildMultisigScript(
+      input.bip32Derivation ?? [],
+      cosigners,
+      policy.threshold,
+    )
+
+    if (
+      multisigScript == null ||
+      rebuiltScript == null ||
+      !rebuiltScript.equals(multisigScript)
+    ) {
+      throw new PasskeyError(
+        'PSBT input script does not derive from the cosigner xpubs',
+        PasskeyErrorCodes.INVALID_PSBT,
+        { inputIndex: index },
+      )
+    }
+  })
+
+  const changeIndexes: number[] = []
+  const mismatchedIndexes: number[] = []
+
+  psbt.data.outputs.forEach((output, index) => {
+    const derivations = output.bip32Derivation ?? []
+
+    if (derivations.length === 0) {
+      return
+    }
+
+    const multisigScript = rebuildMultisigScript(
+      derivations,
+      cosigners,
+      policy.threshold,
+    )
+
+    const isMatch =
+      multisigScript != null &&
+      wrapMultisigScript(multisigScript, policy.scriptType).equals(
+        psbt.txOutputs[index].script,
+      )
+
+    if (isMatch) {
+      changeIndexes.push(index)
+    } else {
+      mismatchedIndexes.push(index)
+    }
+  })
+
+  return { changeIndexes, mismatchedIndexes }
+}
+
+/**
+ * Blocks signing a multisig PSBT with an output that claims to be change but does not pay
+ * back to the vault, see `verifyMultisigChange`.
+ */
+export function assertMultisigChange(psbt: bitcoinjs.Psbt): void {
+  const changeCheck = verifyMultisigChange(psbt)
+
+  if (changeCheck != null && changeCheck.mismatchedIndexes.length > 0) {
+    throw new PasskeyError(
+      'PSBT change outputs do not pay back to the vault',
+      PasskeyErrorCodes.INVALID_CHANGE,
+      { outputIndexes: changeCheck.mismatchedIndexes },
+    )
+  }
+}
+
+// Whether the PSBT spends multisig inputs, whose change is checked by `verifyMultisigChange`
+export function isMultisigPsbt(psbt: bitcoinjs.Psbt): boolean {
+  return getMultisigPolicy(psbt) != null
+}
+
+/**
+ * Checks that the outputs of a single signature PSBT claiming to be change of the key session
+ * pay back to it. An output claims to be change when one of its derivations carries the root's
+ * fingerprint, and is change only when the session derives the claimed public key on that path
+ * and the output script pays to that key. The fingerprint alone is never enough, since the
+ * PSBT author can attach any derivation to an output they control.
+ */
+export function verifyRootChange(
+  psbt: bitcoinjs.Psbt,
+  session: KeySession,
+): ChangeCheck {
+  const { fingerprint } = session.getRoot()
+  const changeIndexes: number[] = []
+  const mismatchedIndexes: number[] = []
+
+  psbt.data.outputs.forEach((output, index) => {
+    const ownDerivations = [
+      ...(output.bip32Derivation ?? []),
+      ...(output.tapBip32Derivation ?? []),
+    ].filter((derivation) => derivation.masterFingerprint.equals(fingerprint))
+
+    if (ownDerivations.length === 0) {
+      return
+    }
+
+    const { script } = psbt.txOutputs[index]
+
+    const isMatch = ownDerivations.some((derivation) => {
+      const { publicKey } = session.derivePath(derivation.path)
+
+      return getSingleSigScripts(publicKey, derivation.pubkey).some(
+        (candidate) => candidate.equals(script),
+      )
+    })
+
+    if (isMatch) {
+      changeIndexes.push(index)
+    } else {
+      mismatchedIndexes.push(index)
+    }
+  })
+
+  return { changeIndexes, mismatchedIndexes }
+}
+
+/**
+ * Blocks signing a single signature PSBT with an output that claims to be change of the key
+ * session but does not pay back to it, see `verifyRootChange`.
+ */
+export function assertRootChange(
+  psbt: bitcoinjs.Psbt,
+  session: KeySession,
+): void {
+  const { mismatchedIndexes } = verifyRootChange(psbt, session)
+
+  if (mismatchedIndexes.length > 0) {
+    throw new PasskeyError(
+      'PSBT change outputs do not pay back to the wallet',
+      PasskeyErrorCodes.INVALID_CHANGE,
+      { outputIndexes: mismatchedIndexes },
+    )
+  }
+}
+
+/**
+ * The single signature output scripts paying to a derived public key, when it is the key
+ * claimed by the derivation. Taproot derivations hold the x-only internal key, and pay to
+ * the key path only output with that internal key.
+ */
+function getSingleSigScripts(
+  publicKey: Buffer,
+  claimedPubkey: Buffer,
+): Buffer[] {
+  if (claimedPubkey.length === 32) {
+    const internalPubkey = publicKey.subarray(1, 33)
+
+    if (!internalPubkey.equals(claimedPubkey)) {
+      return []
+    }
+
+    return [bitcoinjs.payments.p2tr({ internalPubkey }).output as Buffer]
+  }
+
+  if (!publicKey.equals(claimedPubkey)) {
+    return []
+  }
+
+  return [
+    bitcoinjs.payments.p2pkh({ pubkey: publicKey }).output as Buffer,
+    bitcoinjs.payments.p2wpkh({ pubkey: publicKey }).output as Buffer,
+    bitcoinjs.payments.p2sh({
+      redeem: bitcoinjs.payments.p2wpkh({ pubkey: publicKey }),
+    }).output as Buffer,
+  ]
+}
+
+/**
+ * Reads the quorum and script type of the vault from the inputs. Every input must spend
+ * the same kind of multisig script, a PSBT mixing script types, or mixing multisig with
+ * other inputs, is not a vault spend and is rejected.
+ *
+ * @returns null when no input spends a multisig script
+ */
+function getMultisigPolicy(psbt: bitcoinjs.Psbt): MultisigPolicy | null {
+  const policies = psbt.data.inputs.map((input) => {
+    const multisigScript = input.witnessScript ?? input.redeemScript
+
+    if (multisigScript == null) {
+      return null
+    }
+
+    try {
+      const { m, n } = bitcoinjs.payments.p2ms({ output: multisigScript })
+
+      if (m == null || n == null) {
+        return null
+      }
+
+      return {
+        threshold: m,
+        cosignerCount: n,
+        scriptType: getMultisigScriptType(input),
+      }
+    } catch (error) {
+      return null
+    }
+  })
+
+  const [policy] = policies
+
+  if (policies.every((other) => other == null)) {
+    return null
+  }
+
+  if (policy == null) {
+    throw new PasskeyError(
+      'PSBT inputs do not spend the same multisig script type',
+      PasskeyErrorCodes.INVALID_PSBT,
+    )
+  }
+
+  const isConsistent = policies.every(
+    (other) =>
+      other != null &&
+      other.threshold === policy.threshold &&
+      other.cosignerCount === policy.cosignerCount &&
+      other.scriptType === policy.scriptType,
+  )
+
+  if (!isConsistent) {
+    throw new PasskeyError(
+      'PSBT inputs do not spend the same multisig script type',
+      PasskeyErrorCodes.INVALID_PSBT,
+    )
+  }
+
+  return policy
+}
+
+function getMultisigScriptType(input: {
+  witnessScript?: Buffer
+  redeemScript?: Buffer
+}): MultisigScriptType {
+  if (input.witnessScript == null) {
+    return MultisigScriptType.P2SH
+  }
+
+  return input.redeemScript == null
+    ? MultisigScriptType.P2WSH
+    : MultisigScriptType.P2SH_P2WSH
+}
+
+function getCosigners(psbt: bitcoinjs.Psbt): Cosigner[] {
+  const globalXpubs = psbt.data.globalMap.globalXpub ?? []
+
+  return globalXpubs.map(({ extendedPubkey, masterFingerprint, path }) => {
+    // Serialized xpub: version, depth, parent fingerprint, child index, chain code, key
+    const chainCode = extendedPubkey.subarray(13, 45)
+    const publicKey = extendedPubkey.subarray(45, 78)
+
+    return {
+      node: bip32.fromPublicKey(publicKey, chainCode),
+      masterFingerprint,
+      path,
+    }
+  })
+}
+
+/**
+ * Rebuilds the sorted multisig script for a set of derivations, one per cosigner. Each
+ * derivation must extend a cosigner's origin path with unhardened steps, and derive the
+ * public key it claims from that cosigner's xpub.
+ *
+ * @returns null when the derivations do not match the cosigners
+ */
+function rebuildMultisigScript(
+  derivations: Bip32Derivation[],
+  cosigners: Cosigner[],
+  threshold: number,
+): Buffer | null {
+  if (derivations.length !== cosigners.length) {
+    return null
+  }
+
+  const usedCosigners = new Set<Cosigner>()
+  const pubkeys: Buffer[] = []
+
+  for (const derivation of derivations) {
+    const cosigner = cosigners.find(
+      (candidate) =>
+        !usedCosigners.has(candidate) &&
+        candidate.masterFingerprint.equals(derivation.masterFingerprint) &&
+        derivation.path.startsWith(`${candidate.path}/`),
+    )
+
+    if (cosigner == null) {
+      return null
+    }
+
+    const relativePath = derivation.path.slice(cosigner.path.length + 1)
+
+    if (/['h]/.test(relativePath)) {
+      return null
+    }
+
+    const { publicKey } = cosigner.node.derivePath(relativePath)
+
+    if (!publicKey.equals(derivation.pubkey)) {
+      return null
+    }
+
+    usedCosigners.add(cosigner)
+    pubkeys.push(publicKey)
+  }
+
+  // Vaults use sortedmulti, public keys are ordered lexicographically in the script
+  pubkeys.sort(Buffer.compare)
+
+  const { output } = bitcoinjs.payments.p2ms({ m: threshold, pubkeys })
+
+  return output ?? null
+}
+
+function wrapMultisigScript(
+  multisigScript: Buffer,
+  scriptType: MultisigScriptType,
+): Buffer {
+  const redeem = { output: multisigScript }
+
+  switch (scriptType) {
+    case MultisigScriptType.P2SH:
+      return bitcoinjs.payments.p2sh({ redeem }).output as Buffer
+    case MultisigScriptType.P2WSH:
+      return bitcoinjs.payments.p2wsh({ redeem }).output as Buffer
+    case MultisigScriptType.P2SH_P2WSH:
+      return bitcoinjs.payments.p2sh({
+        redeem: bitcoinjs.payments.p2wsh({ redeem }),
+      }).output as Buffer
+  }
+}
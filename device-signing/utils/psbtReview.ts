@@ -0,0 +1,253 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { verifyMultisigChange, verifyRootChange } from './psbtChange'
+import { parseSignablePsbt } from './psbtValidation'
+
+export interface PsbtSummaryInput {
+  txid: string
+  vout: number
+  // null when the PSBT does not include the previous output for this input
+  value: number | null
+  address: string | null
+}
+
+export interface PsbtSummaryOutput {
+  index: number
+  // null for scripts without an address, e.g. OP_RETURN
+  address: string | null
+  value: number
+  // Pays back to the wallet, checked against the seed phrase or the cosigner xpubs
+  isChange: boolean
+  /**
+   * Claims to be change by its derivation, but could not be checked before the prompt. The
+   * claim is checked against the seed phrase when signing, which fails if it does not match.
+   */
+  isUnverifiedChange: boolean
+  // Claims to be change, but does not pay back to the wallet
+  isChangeMismatch: boolean
+}
+
+export interface PsbtSummary {
+  inputs: PsbtSummaryInput[]
+  outputs: PsbtSummaryOutput[]
+  // Both null when any input value is unknown
+  fee: number | null
+  // sat/vB, estimated from the unsigned transaction and the expected witness sizes
+  feeRate: number | null
+  /**
+   * Whether change outputs were checked against the seed phrase, or against the cosigner
+   * xpubs of a multisig PSBT. Otherwise, e.g. for a single signature review before the
+   * passkey prompt, no output is shown as change, and outputs whose derivation claims the
+   * expected master fingerprint, or any derivation when no fingerprint is known, are
+   * flagged with `isUnverifiedChange`.
+   */
+  isChangeVerified: boolean
+}
+
+// An ECDSA signature with its sighash byte, at its maximum DER encoded length
+const ECDSA_SIGNATURE_BYTES = 73
+// p2wpkh witness: item count, signature, and a compressed public key
+const P2WPKH_WITNESS_BYTES = 1 + 1 + ECDSA_SIGNATURE_BYTES + 1 + 33
+// p2tr key path witness: item count and a Schnorr signature
+const P2TR_WITNESS_BYTES = 1 + 1 + 64
+// p2pkh scriptSig: signature and a compressed public key, counted as non-witness bytes
+const P2PKH_SCRIPT_SIG_BYTES = 1 + ECDSA_SIGNATURE_BYTES + 1 + 33
+
+/**
+ * Summarizes a hex encoded PSBT for review before signing: the inputs being spent, where the
+ * outputs send funds, which outputs return to the wallet, and the fee. Change outputs of a
+ * multisig PSBT are checked with `verifyMultisigChange`, and those of a single signature
+ * PSBT with `verifyRootChange` when a key session is given.
+ *
+ * @param network the network used to encode addresses, bitcoin mainnet by default
+ *
+ * @param session the key session read from the device. When given, an output is change only
+ * if its script pays to a key this session derives, see `verifyRootChange`.
+ *
+ * @param masterFingerprint the hex encoded fingerprint of the wallet, used to flag unverified
+ * change when the seed is not available
+ */
+export function describePsbt(
+  psbtHex: string,
+  {
+    network = bitcoinjs.networks.bitcoin,
+    session,
+    masterFingerprint,
+  }: {
+    network?: bitcoinjs.Network
+    session?: KeySession
+    masterFingerprint?: string
+  } = {},
+): PsbtSummary {
+  const psbt = parseSignablePsbt(psbtHex)
+
+  const inputs = psbt.txInputs.map((txInput, index) => {
+    const previousOutput = getPreviousOutput(psbt, index)
+
+    return {
+      txid: Buffer.from(txInput.hash).reverse().toString('hex'),
+      vout: txInput.index,
+      value: previousOutput?.value ?? null,
+      address:
+        previousOutput != null
+          ? getAddress(previousOutput.script, network)
+          : null,
+    }
+  })
+
+  const fingerprint =
+    session?.getRoot().fingerprint ??
+    (masterFingerprint != null ? Buffer.from(masterFingerprint, 'hex') : null)
+
+  const changeCheck =
+    verifyMultisigChange(psbt) ??
+    (session != null ? verifyRootChange(psbt, session) : null)
+
+  const outputs = psbt.txOutputs.map((txOutput, index) => ({
+    index,
+    address: getAddress(txOutput.script, network),
+    value: txOutput.value,
+    isChange: changeCheck?.changeIndexes.includes(index) ?? false,
+    isUnverifiedChange:
+      changeCheck == null && claimsChange(psbt, index, fingerprint),
+    isChangeMismatch: changeCheck?.mismatchedIndexes.includes(index) ?? false,
+  }))
+
+  const inputValues = inputs.map((input) => input.value)
+  const hasAllInputValues = inputValues.every((value) => value != null)
+
+  const fee = hasAllInputValues
+    ? sum(inputValues as number[]) - sum(outputs.map((output) => output.value))
+    : null
+
+  const feeRate =
+    fee != null
+      ? Math.round((fee / estimateVirtualSize(psbt)) * 100) / 100
+      : null
+
+  return {
+    inputs,
+    outputs,
+    fee,
+    feeRate,
+    isChangeVerified: changeCheck != null,
+  }
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function getAddress(script: Buffer, network: bitcoinjs.Network): string | null {
+  try {
+    return bitcoinjs.address.fromOutputScript(script, network)
+  } catch (error) {
+    return null
+  }
+}
+
+function getPreviousOutput(
+  psbt: bitcoinjs.Psbt,
+  index: number,
+): { script: Buffer; value: number } | null {
+  const input = psbt.data.inputs[index]
+
+  if (input.witnessUtxo != null) {
+    return input.witnessUtxo
+  }
+
+  if (input.nonWitnessUtxo != null) {
+    const previousTx = bitcoinjs.Transaction.fromBuffer(input.nonWitnessUtxo)
+    return previousTx.outs[psbt.txInputs[index].index] ?? null
+  }
+
+  return null
+}
+
+// Whether an output claims to be change by its derivations, which the PSBT author controls
+function claimsChange(
+  psbt: bitcoinjs.Psbt,
+  index: number,
+  fingerprint: Buffer | null,
+): boolean {
+  const output = psbt.data.outputs[index]
+  const derivations = [
+    ...(output.bip32Derivation ?? []),
+    ...(output.tapBip32Derivation ?? []),
+  ]
+
+  if (fingerprint == null) {
+    return derivations.length > 0
+  }
+
+  return derivations.some((derivation) =>
+    derivation.masterFingerprint.equals(fingerprint),
+  )
+}
+
+/**
+ * Estimates the virtual size of the signed transaction. The PSBT is unsigned, so the witness
+ * of each input is estimated from its script type, at the maximum signature length.
+ */
+function estimateVirtualSize(psbt: bitcoinjs.Psbt): number {
+  const tx = new bitcoinjs.Transaction()
+  tx.version = psbt.version
+  tx.locktime = psbt.locktime
+  psbt.txInputs.forEach((input) =>
+    tx.addInput(input.hash, input.index, input.sequence),
+  )
+  psbt.txOutputs.forEach((output) => tx.addOutput(output.script, output.value))
+
+  let baseBytes = tx.byteLength(false)
+  let witnessBytes = 0
+
+  psbt.data.inputs.forEach((input, index) => {
+    const script = getPreviousOutput(psbt, index)?.script
+
+    if (input.witnessScript != null) {
+      witnessBytes += estimateScriptWitnessBytes(input.witnessScript)
+    } else if (script != null && isP2wpkh(script)) {
+      witnessBytes += P2WPKH_WITNESS_BYTES
+    } else if (script != null && isP2tr(script)) {
+      witnessBytes += P2TR_WITNESS_BYTES
+    } else {
+      baseBytes += P2PKH_SCRIPT_SIG_BYTES
+    }
+  })
+
+  // Segwit marker and flag bytes
+  const segwitBytes = witnessBytes > 0 ? 2 : 0
+
+  return Math.ceil((baseBytes * 4 + witnessBytes + segwitBytes) / 4)
+}
+
+// Witness for a script spend: a multisig script takes m signatures after an empty item
+function estimateScriptWitnessBytes(witnessScript: Buffer): number {
+  let signatureCount = 1
+  let emptyItemBytes = 0
+
+  try {
+    const { m } = bitcoinjs.payments.p2ms({ output: witnessScript })
+    signatureCount = m ?? 1
+    emptyItemBytes = 1
+  } catch (error) {
+    // Not a multisig script, estimate a single signature
+  }
+
+  return (
+    1 +
+    emptyItemBytes +
+    signatureCount * (1 + ECDSA_SIGNATURE_BYTES) +
+    (witnessScript.length < 0xfd ? 1 : 3) +
+    witnessScript.length
+  )
+}
+
+function isP2wpkh(script: Buffer): boolean {
+  return script.length === 22 && script[0] === 0x00 && script[1] === 0x14
+}
+
+function isP2tr(script: Buffer): boolean {
+  return script.length === 34 && script[0] === 0x51 && script[1] === 0x20
+}
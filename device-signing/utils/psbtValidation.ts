@@ -0,0 +1,152 @@
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+/**
+ * Parses a hex encoded PSBT and checks that it can be signed by a passkey device at all,
+ * before the user is prompted to touch the key. Every input must carry BIP32 derivation
+ * data, or taproot BIP32 derivation data for P2TR inputs, since that is how the keys to
+ * sign with are found.
+ *
+ * @param masterFingerprint the hex encoded fingerprint of the expected wallet, if known. At
+ * least one input must derive from it, so a PSBT for another wallet fails without a prompt.
+ */
+export function parseSignablePsbt(
+  psbtHex: string,
+  masterFingerprint?: string,
+): bitcoinjs.Psbt {
+  let psbt: bitcoinjs.Psbt
+
+  try {
+    psbt = bitcoinjs.Psbt.fromHex(psbtHex)
+  } catch (error) {
+    throw new PasskeyError(
+      'PSBT could not be parsed',
+      PasskeyErrorCodes.INVALID_PSBT,
+    )
+  }
+
+  if (psbt.inputCount === 0) {
+    throw new PasskeyError('PSBT has no inputs', PasskeyErrorCodes.INVALID_PSBT)
+  }
+
+  const missingDerivationIndexes = psbt.data.inputs
+    .map((input, index) =>
+      getInputDerivations(input).length === 0 ? index : null,
+    )
+    .filter((index): index is number => index != null)
+
+  if (missingDerivationIndexes.length > 0) {
+    throw new PasskeyError(
+      'PSBT inputs are missing BIP32 derivation data',
+      PasskeyErrorCodes.INVALID_PSBT,
+      { inputIndexes: missingDerivationIndexes },
+    )
+  }
+
+  if (masterFingerprint != null) {
+    const fingerprint = Buffer.from(masterFingerprint, 'hex')
+
+    const hasMatchingInput = psbt.data.inputs.some((input) =>
+      getInputDerivations(input).some((derivation) =>
+        derivation.masterFingerprint.equals(fingerprint),
+      ),
+    )
+
+    if (!hasMatchingInput) {
+      throw new PasskeyError(
+        'No PSBT input derives from the expected master fingerprint',
+        PasskeyErrorCodes.WRONG_DEVICE,
+        { masterFingerprint },
+      )
+    }
+  }
+
+  return psbt
+}
+
+/**
+ * Checks the PSBT inputs against the key session read from the device, after the prompt and
+ * before signing. Inputs derived from another master fingerprint are left unsigned, as in a
+ * multisig PSBT, but at least one input must belong to this root.
+ *
+ * A derivation that claims this root's fingerprint but whose path does not derive its
+ * public key is a malformed or tampered PSBT, and is rejected rather than skipped.
+ *
+ * @returns the indexes of the inputs this root can sign
+ */
+export function assertPsbtMatchesRoot(
+  psbt: bitcoinjs.Psbt,
+  session: KeySession,
+): number[] {
+  const { fingerprint } = session.getRoot()
+  const signableIndexes: number[] = []
+
+  psbt.data.inputs.forEach((input, index) => {
+    const ownDerivations = getInputDerivations(input).filter((derivation) =>
+      derivation.masterFingerprint.equals(fingerprint),
+    )
+
+    ownDerivations.forEach((derivation) => {
+      const { publicKey } = session.derivePath(derivation.path)
+
+      // Taproot derivations hold the x-only public key, without the parity byte
+      const expectedPubkey =
+        derivation.pubkey.length === 32 ? publicKey.subarray(1, 33) : publicKey
+
+      if (!expectedPubkey.equals(derivation.pubkey)) {
+        throw new PasskeyError(
+          'PSBT input public key does not match its derivation path',
+          PasskeyErrorCodes.INVALID_PSBT,
+          { inputIndex: index, path: derivation.path },
+        )
+      }
+    })
+
+    if (ownDerivations.length > 0) {
+      signableIndexes.push(index)
+    }
+  })
+
+  if (signableIndexes.length === 0) {
+    throw new PasskeyError(
+      'No PSBT input derives from the seed phrase on this device',
+      PasskeyErrorCodes.WRONG_DEVICE,
+      { masterFingerprint: fingerprint.toString('hex') },
+    )
+  }
+
+  return signableIndexes
+}
+
+/**
+ * Signs the ECDSA inputs of a PSBT that derive from the key session, as `signInputHD` does,
+ * but with nodes derived through the session so their keys are overwritten on disposal.
+ *
+ * The derivations are expected to be checked with `assertPsbtMatchesRoot` first.
+ */
+export function signEcdsaInputs(
+  psbt: bitcoinjs.Psbt,
+  session: KeySession,
+  inputIndexes: number[],
+): void {
+  const { fingerprint } = session.getRoot()
+
+  inputIndexes.forEach((index) => {
+    const ownDerivations = (
+      psbt.data.inputs[index].bip32Derivation ?? []
+    ).filter((derivation) => derivation.masterFingerprint.equals(fingerprint))
+
+    ownDerivations.forEach((derivation) => {
+      psbt.signInput(index, session.derivePath(derivation.path))
+    })
+  })
+}
+
+// Both ECDSA and taproot derivations, taproot inputs only carry `tapBip32Derivation`
+function getInputDerivations(
+  input: bitcoinjs.Psbt['data']['inputs'][number],
+): { masterFingerprint: Buffer; pubkey: Buffer; path: string }[] {
+  return [...(input.bip32Derivation ?? []), ...(input.tapBip32Derivation ?? [])]
+}
@@ -0,0 +1,282 @@
+import { BigNumber, TypedDataField, ethers } from 'ethers'
+
+import { ToSign } from '../types/toSign'
+import {
+  AbiRegistry,
+  DecodedCall,
+  decodeCalldata,
+  defaultAbiRegistry,
+} from './calldataDecoder'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// Call or delegate call, as in `Enum.Operation` of the Safe contracts
+export enum SafeOperation {
+  CALL = 0,
+  DELEGATE_CALL = 1,
+}
+
+/**
+ * The fields of a Safe transaction that are hashed and signed by the owners. Amounts are
+ * decimal strings, so they are shown as they are hashed.
+ */
+export interface SafeTransaction {
+  to: string
+  value: string
+  data: string
+  operation: SafeOperation
+  safeTxGas: string
+  baseGas: string
+  gasPrice: string
+  gasToken: string
+  refundReceiver: string
+  nonce: string
+}
+
+export interface SafeTransactionReview {
+  safeAddress: string
+  chainId: number
+  transaction: SafeTransaction
+  // What the transaction does, decoded from its data
+  call: DecodedCall
+  // The EIP-712 SafeTx hash that is signed, hex encoded
+  hash: string
+}
+
+// Safe contracts before v1.3.0 have no chain ID in their EIP-712 domain
+const SAFE_CHAIN_ID_DOMAIN_VERSION = [1, 3, 0]
+
+// The SafeTx type is only hashed with the fields below from v1.0.0
+const SAFE_MIN_SUPPORTED_VERSION = [1, 0, 0]
+
+// EIP-712 types of the Safe contracts from v1.0.0
+const SAFE_TX_TYPES: Record<string, TypedDataField[]> = {
+  SafeTx: [
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+    { name: 'operation', type: 'uint8' },
+    { name: 'safeTxGas', type: 'uint256' },
+    { name: 'baseGas', type: 'uint256' },
+    { name: 'gasPrice', type: 'uint256' },
+    { name: 'gasToken', type: 'address' },
+    { name: 'refundReceiver', type: 'address' },
+    { name: 'nonce', type: 'uint256' },
+  ],
+}
+
+// Assumed when a request has no Safe version, as the chain ID is then in the domain
+export const SAFE_DEFAULT_VERSION = '1.3.0'
+
+const UINT_FIELDS = [
+  'value',
+  'safeTxGas',
+  'baseGas',
+  'gasPrice',
+  'nonce',
+] as const
+
+/**
+ * Validates the Safe transaction fields of a signature request. Gas and refund fields are
+ * optional and default to zero, as when the transaction is proposed without refunds.
+ */
+export function parseSafeTransaction(toSign: ToSign): SafeTransaction {
+  const fields = toSign as unknown as Record<string, unknown>
+
+  const invalidField = (name: string): PasskeyError =>
+    new PasskeyError(
+      `Invalid Safe transaction ${name}`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { field: name, value: String(fields[name]) },
+    )
+
+  const getAddress = (name: string, optional = false): string => {
+    const value = fields[name]
+
+    if (value == null && optional) {
+      return ethers.constants.AddressZero
+    }
+
+    if (typeof value !== 'string' || !ethers.utils.isAddress(value)) {
+      throw invalidField(name)
+    }
+
+    return ethers.utils.getAddress(value)
+  }
+
+  const getUint = (name: string): string => {
+    let amount: BigNumber
+
+    try {
+      amount = BigNumber.from(fields[name] ?? '0')
+    } catch (error) {
+      throw invalidField(name)
+    }
+
+    if (amount.isNegative()) {
+      throw invalidField(name)
+    }
+
+    return amount.toString()
+  }
+
+  const data = fields.data ?? '0x'
+
+  if (typeof data !== 'string' || !ethers.utils.isHexString(data)) {
+    throw invalidField('data')
+  }
+
+  const operation = Number(fields.operation ?? SafeOperation.CALL)
+
+  if (
+    operation !== SafeOperation.CALL &&
+    operation !== SafeOperation.DELEGATE_CALL
+  ) {
+    throw invalidField('operation')
+  }
+
+  // The nonce orders the Safe's transactions, it is never defaulted
+  if (fields.nonce == null) {
+    throw invalidField('nonce')
+  }
+
+  const [value, safeTxGas, baseGas, gasPrice, nonce] = UINT_FIELDS.map(getUint)
+
+  return {
+    to: getAddress('to'),
+    value,
+    data,
+    operation,
+    safeTxGas,
+    baseGas,
+    gasPrice,
+    gasToken: getAddress('gasToken', true),
+    refundReceiver: getAddress('refundReceiver', true),
+    nonce,
+  }
+}
+
+// Whether a semver version, as `VERSION` of the Safe contract, is at least another
+function isVersionAtLeast(version: number[], minimum: number[]): boolean {
+  for (let index = 0; index < minimum.length; index++) {
+    if (version[index] !== minimum[index]) {
+      return version[index] > minimum[index]
+    }
+  }
+
+  return true
+}
+
+/**
+ * The EIP-712 domain of a Safe. The chain ID is part of the domain from v1.3.0, older
+ * Safes only bind their hashes to the Safe address.
+ *
+ * @throws INVALID_SUBMISSION when the version is malformed or older than v1.0.0, whose
+ * SafeTx hash has other fields
+ */
+function getSafeDomain({
+  safeAddress,
+  chainId,
+  safeVersion,
+}: {
+  safeAddress: string
+  chainId: number
+  safeVersion: string
+}): ethers.TypedDataDomain {
+  const version = safeVersion.split('+')[0].split('.').map(Number)
+
+  if (
+    version.length !== 3 ||
+    version.some((part) => !Number.isInteger(part) || part < 0)
+  ) {
+    throw new PasskeyError(
+      'Invalid Safe version',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { safeVersion },
+    )
+  }
+
+  if (!isVersionAtLeast(version, SAFE_MIN_SUPPORTED_VERSION)) {
+    throw new PasskeyError(
+      'Safe version is not supported',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { safeVersion },
+    )
+  }
+
+  return isVersionAtLeast(version, SAFE_CHAIN_ID_DOMAIN_VERSION)
+    ? { chainId, verifyingContract: safeAddress }
+    : { verifyingContract: safeAddress }
+}
+
+/**
+ * Computes the SafeTx hash that the owners sign, as `getTransactionHash` of the Safe
+ * contract, so the hash from the server does not have to be trusted.
+ *
+ * @param safeVersion the `VERSION` of the Safe contract, v1.3.0 by default. Safes from
+ * v1.0.0 are supported, older ones are rejected.
+ */
+export function hashSafeTransaction({
+  transaction,
+  safeAddress,
+  chainId,
+  safeVersion = SAFE_DEFAULT_VERSION,
+}: {
+  transaction: SafeTransaction
+  safeAddress: string
+  chainId: number
+  safeVersion?: string
+}): string {
+  return ethers.utils._TypedDataEncoder.hash(
+    getSafeDomain({ safeAddress, chainId, safeVersion }),
+    SAFE_TX_TYPES,
+    transaction,
+  )
+}
+
+/**
+ * Decodes a Safe transaction signature request for review before signing, with the calls
+ * it makes, see `decodeCalldata`.
+ *
+ * @param safeVersion the `VERSION` of the Safe contract, see `hashSafeTransaction`
+ *
+ * @param abiRegistry functions to decode calls with, the bundled token and Safe functions
+ * by default
+ */
+export function describeSafeTransaction({
+  toSign,
+  safeAddress,
+  chainId,
+  safeVersion = SAFE_DEFAULT_VERSION,
+  abiRegistry = defaultAbiRegistry,
+}: {
+  toSign: ToSign
+  safeAddress: string
+  chainId: number
+  safeVersion?: string
+  abiRegistry?: AbiRegistry
+}): SafeTransactionReview {
+  const transaction = parseSafeTransaction(toSign)
+
+  const call = decodeCalldata(
+    {
+      to: transaction.to,
+      value: transaction.value,
+      data: transaction.data,
+      isDelegateCall: transaction.operation === SafeOperation.DELEGATE_CALL,
+    },
+    abiRegistry,
+  )
+
+  return {
+    safeAddress,
+    chainId,
+    transaction,
+    call,
+    hash: hashSafeTransaction({
+      transaction,
+      safeAddress,
+      chainId,
+      safeVersion,
+    }),
+  }
+}
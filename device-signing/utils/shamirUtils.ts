@@ -0,0 +1,105 @@
+import * as bip39 from 'bip39'
+import slip39 from 'slip39'
+
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// SLIP-39 allows at most 16 member shares in a group
+export const SHAMIR_MAX_SHARE_COUNT = 16
+
+// A threshold of 1 would make every share a full copy of the seed phrase
+export const SHAMIR_MIN_THRESHOLD = 2
+
+/**
+ * Splits the entropy of a BIP39 seed phrase into SLIP-39 shares, a single group of
+ * `shareCount` shares where any `threshold` of them recover the seed phrase.
+ *
+ * The shares encode the BIP39 entropy rather than the BIP39 seed, so combining them yields
+ * the original BIP39 words. A wallet that imports the shares as a SLIP-39 wallet would derive
+ * different keys, the shares must be combined back into words with `combineShares`. The
+ * BIP39 passphrase is not part of the shares and must be backed up separately.
+ *
+ * The shares are combined back before they are returned, so a share set that cannot recover
+ * the seed phrase is never shown to the user.
+ */
+export function splitSeedPhrase({
+  seedPhrase,
+  threshold,
+  shareCount,
+}: {
+  seedPhrase: string
+  threshold: number
+  shareCount: number
+}): string[] {
+  if (
+    !Number.isInteger(threshold) ||
+    !Number.isInteger(shareCount) ||
+    threshold < SHAMIR_MIN_THRESHOLD ||
+    threshold > shareCount ||
+    shareCount > SHAMIR_MAX_SHARE_COUNT
+  ) {
+    throw new PasskeyError(
+      `Unsupported share threshold ${threshold} of ${shareCount}`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { threshold, shareCount },
+    )
+  }
+
+  if (!bip39.validateMnemonic(seedPhrase)) {
+    throw new PasskeyError(
+      'Invalid seed phrase',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+    )
+  }
+
+  const masterSecret = Array.from(
+    Buffer.from(bip39.mnemonicToEntropy(seedPhrase), 'hex'),
+  )
+
+  const slip = slip39.fromArray(masterSecret, {
+    threshold: 1,
+    groups: [[threshold, shareCount]],
+  })
+
+  const shares: string[] = slip.fromPath('r/0').mnemonics
+
+  if (combineShares(shares.slice(0, threshold)) !== seedPhrase) {
+    throw new PasskeyError(
+      'Shares do not recover the seed phrase',
+      PasskeyErrorCodes.INCORRECT_STATE,
+    )
+  }
+
+  return shares
+}
+
+/**
+ * Recovers the BIP39 seed phrase from shares created by `splitSeedPhrase`. Fails for an
+ * invalid share, shares from different sets, or fewer shares than the threshold.
+ */
+export function combineShares(shares: string[]): string {
+  const invalidShareIndexes = shares
+    .map((share, index) => (slip39.validateMnemonic(share) ? null : index))
+    .filter((index): index is number => index != null)
+
+  if (invalidShareIndexes.length > 0) {
+    throw new PasskeyError(
+      'Invalid share',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { invalidShareIndexes },
+    )
+  }
+
+  let masterSecret: number[]
+
+  try {
+    masterSecret = slip39.recoverSecret(shares)
+  } catch (error) {
+    throw new PasskeyError(
+      'Unable to recover seed phrase from shares',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { reason: (error as Error).message },
+    )
+  }
+
+  return bip39.entropyToMnemonic(Buffer.from(masterSecret).toString('hex'))
+}
@@ -0,0 +1,94 @@
+import * as ecc from '@bitcoin-js/tiny-secp256k1-asmjs'
+import * as bitcoinjs from 'bitcoinjs-lib'
+
+import { KeySession } from './keySession'
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+// Taproot payments and signing require an ECC library with Schnorr and x-only support
+bitcoinjs.initEccLib(ecc)
+
+type PsbtInput = bitcoinjs.Psbt['data']['inputs'][number]
+
+export function isTaprootInput(input: PsbtInput): boolean {
+  return (
+    input.tapInternalKey != null ||
+    (input.tapBip32Derivation != null && input.tapBip32Derivation.length > 0)
+  )
+}
+
+/**
+ * Signs the taproot inputs of a PSBT that derive from the key session, with Schnorr
+ * signatures as defined in BIP340 and BIP341. The keys, tweaked keys included, are derived
+ * through the session so they are overwritten on disposal.
+ *
+ * A derivation without leaf hashes is for the internal key, and is signed on the key path
+ * with the key tweaked by the input's merkle root. A derivation with leaf hashes is signed
+ * on the script path, once for each leaf, with the untweaked key.
+ *
+ * The derivations are expected to be checked with `assertPsbtMatchesRoot` first.
+ *
+ * @returns the indexes of the signed inputs
+ */
+export function signTaprootInputs(
+  psbt: bitcoinjs.Psbt,
+  session: KeySession,
+): number[] {
+  const { fingerprint } = session.getRoot()
+  const signedIndexes: number[] = []
+
+  psbt.data.inputs.forEach((input, index) => {
+    const ownDerivations = (input.tapBip32Derivation ?? []).filter(
+      (derivation) => derivation.masterFingerprint.equals(fingerprint),
+    )
+
+    ownDerivations.forEach((derivation) => {
+      const node = session.derivePath(derivation.path)
+      const xOnlyPublicKey = node.publicKey.subarray(1, 33)
+
+      if (derivation.leafHashes.length === 0) {
+        if (
+          input.tapInternalKey == null ||
+          !input.tapInternalKey.equals(xOnlyPublicKey)
+        ) {
+          throw new PasskeyError(
+            'PSBT key path derivation is not for the input internal key',
+            PasskeyErrorCodes.INVALID_PSBT,
+            { inputIndex: index, path: derivation.path },
+          )
+        }
+
+        const tweak = bitcoinjs.crypto.taggedHash(
+          'TapTweak',
+          input.tapMerkleRoot != null
+            ? Buffer.concat([xOnlyPublicKey, input.tapMerkleRoot])
+            : xOnlyPublicKey,
+        )
+
+        psbt.signTaprootInput(index, session.tweak(node, tweak))
+      } else {
+        derivation.leafHashes.forEach((leafHash) => {
+          psbt.signTaprootInput(index, node, leafHash)
+        })
+      }
+    })
+
+    if (ownDerivations.length > 0) {
+      signedIndexes.push(index)
+    }
+  })
+
+  return signedIndexes
+}
+
+/**
+ * Returns the hex encoded Schnorr signatures of a signed PSBT, by input order. Key path
+ * signatures come before the script path signatures of the same input.
+ */
+export function extractTaprootSignatures(psbt: bitcoinjs.Psbt): string[] {
+  return psbt.data.inputs.flatMap((input) => [
+    ...(input.tapKeySig != null ? [input.tapKeySig.toString('hex')] : []),
+    ...(input.tapScriptSig ?? []).map(({ signature }) =>
+      signature.toString('hex'),
+    ),
+  ])
+}
@@ -0,0 +1,159 @@
+import { BigNumber, TypedDataDomain, TypedDataField, ethers } from 'ethers'
+
+import { PasskeyError, PasskeyErrorCodes } from './passkeyUtils'
+
+/**
+ * EIP-712 typed data as sent by dapps with `eth_signTypedData_v4`. The `EIP712Domain` type
+ * may be included in `types`, it is derived from `domain` when signing.
+ */
+export interface TypedDataPayload {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  primaryType?: string
+  message: Record<string, unknown>
+}
+
+// A leaf of the typed data message, e.g. `permit.spender` with its solidity type
+export interface TypedDataReviewField {
+  path: string
+  type: string
+  value: string
+}
+
+export interface TypedDataReview {
+  primaryType: string
+  domain: TypedDataDomain
+  fields: TypedDataReviewField[]
+  // The EIP-712 digest that is signed, hex encoded
+  hash: string
+}
+
+const DOMAIN_TYPE = 'EIP712Domain'
+
+/**
+ * Validates typed data before the passkey prompt and strips the domain type, returning the
+ * arguments for `_signTypedData`. The types must have a single primary type, matching
+ * `primaryType` when given, and the message must encode with them.
+ *
+ * @param expectedChainId the chain of the signing account. A domain bound to another chain,
+ * or to no chain, is rejected, so a signature cannot be replayed on another chain.
+ */
+export function parseTypedData(
+  payload: TypedDataPayload,
+  expectedChainId?: number,
+): {
+  domain: TypedDataDomain
+  types: Record<string, TypedDataField[]>
+  primaryType: string
+  message: Record<string, unknown>
+} {
+  const { domain, message } = payload
+  const types = Object.fromEntries(
+    Object.entries(payload.types).filter(([name]) => name !== DOMAIN_TYPE),
+  )
+
+  let primaryType: string
+
+  try {
+    primaryType = ethers.utils._TypedDataEncoder.getPrimaryType(types)
+    ethers.utils._TypedDataEncoder.hash(domain, types, message)
+  } catch (error) {
+    throw new PasskeyError(
+      'Invalid typed data',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { reason: (error as Error).message },
+    )
+  }
+
+  if (payload.primaryType != null && payload.primaryType !== primaryType) {
+    throw new PasskeyError(
+      `Typed data primary type ${payload.primaryType} does not match its types`,
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { primaryType },
+    )
+  }
+
+  if (expectedChainId != null && domain.chainId == null) {
+    throw new PasskeyError(
+      'Typed data domain is not bound to a chain',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { expectedChainId },
+    )
+  }
+
+  if (
+    expectedChainId != null &&
+    !BigNumber.from(domain.chainId).eq(expectedChainId)
+  ) {
+    throw new PasskeyError(
+      'Typed data domain is for another chain',
+      PasskeyErrorCodes.INVALID_SUBMISSION,
+      { chainId: domain.chainId!.toString(), expectedChainId },
+    )
+  }
+
+  return { domain, types, primaryType, message }
+}
+
+/**
+ * Decodes typed data into a flat list of fields for review before signing, with nested
+ * structs and arrays addressed by their path from the primary type.
+ */
+export function describeTypedData(
+  payload: TypedDataPayload,
+  expectedChainId?: number,
+): TypedDataReview {
+  const { domain, types, primaryType, message } = parseTypedData(
+    payload,
+    expectedChainId,
+  )
+
+  return {
+    primaryType,
+    domain,
+    fields: describeStruct(types, primaryType, message, primaryType),
+    hash: ethers.utils._TypedDataEncoder.hash(domain, types, message),
+  }
+}
+
+function describeStruct(
+  types: Record<string, TypedDataField[]>,
+  type: string,
+  value: Record<string, unknown>,
+  path: string,
+): TypedDataReviewField[] {
+  return types[type].flatMap((field) =>
+    describeValue(
+      types,
+      field.type,
+      value[field.name],
+      `${path}.${field.name}`,
+    ),
+  )
+}
+
+function describeValue(
+  types: Record<string, TypedDataField[]>,
+  type: string,
+  value: unknown,
+  path: string,
+): TypedDataReviewField[] {
+  const arrayMatch = type.match(/^(.*)\[\d*\]$/)
+
+  if (arrayMatch != null) {
+    return (value as unknown[]).flatMap((item, index) =>
+      describeValue(types, arrayMatch[1], item, `${path}[${index}]`),
+    )
+  }
+
+  if (types[type] != null) {
+    return describeStruct(types, type, value as Record<string, unknown>, path)
+  }
+
+  // Bytes may be given as arrays, shown as hex like the other encodings
+  if (type.startsWith('bytes') && typeof value !== 'string') {
+    return [{ path, type, value: ethers.utils.hexlify(value as Uint8Array) }]
+  }
+
+  return [{ path, type, value: String(value) }]
+}
@@ -0,0 +1,103 @@
+import { css } from '@emotion/react'
+import { useEffect, useState } from 'react'
+
+import ButtonAsLink from 'src/components/ButtonAsLink'
+import Spacer from 'src/components/Spacer'
+import COLOR from 'src/constants/color'
+import { useWebWallet } from 'src/features/device-signing/hooks/useWebWallet'
+import useTranslate from 'src/hooks/useTranslate'
+
+/**
+ * Optional BIP39 passphrase entry for web wallets. The passphrase is handed to the web wallet
+ * context as it is typed and never leaves the browser.
+ *
+ * @param requireConfirmation during setup, a mistyped passphrase creates a wallet the user
+ * cannot reproduce, so the passphrase must be entered twice before it is accepted
+ * @param defaultOpen shows the inputs without the toggle, e.g. after a passphrase error
+ */
+export default function PassphraseInput({
+  requireConfirmation,
+  defaultOpen,
+}: {
+  requireConfirmation?: boolean
+  defaultOpen?: boolean
+}) {
+  const { translate } = useTranslate()
+  const { setPassphrase } = useWebWallet()
+
+  const [isOpen, setIsOpen] = useState<boolean>(Boolean(defaultOpen))
+  const [value, setValue] = useState<string>('')
+  const [confirmation, setConfirmation] = useState<string>('')
+
+  const isMismatched = requireConfirmation === true && value !== confirmation
+
+  useEffect(() => {
+    setPassphrase(isOpen && !isMismatched ? value : null)
+  }, [isOpen, isMismatched, value, setPassphrase])
+
+  if (!isOpen) {
+    return (
+      <ButtonAsLink onClick={() => setIsOpen(true)}>
+        {translate('yubikey_passphrase_toggle')}
+      </ButtonAsLink>
+    )
+  }
+
+  return (
+    <div css={containerStyle}>
+      <label>
+        {translate('yubikey_passphrase_label')}
+        <input
+          type='password'
+          autoComplete='off'
+          value={value}
+          onChange={(event) => setValue(event.target.value)}
+        />
+      </label>
+      {requireConfirmation === true && (
+        <>
+          <Spacer unit={4} />
+          <label>
+            {translate('yubikey_passphrase_confirm_label')}
+            <input
+              type='password'
+              autoComplete='off'
+              value={confirmation}
+              onChange={(event) => setConfirmation(event.target.value)}
+            />
+          </label>
+          {isMismatched && confirmation !== '' && (
+            <span css={errorStyle}>
+              {translate('yubikey_passphrase_mismatch')}
+            </span>
+          )}
+        </>
+      )}
+      <Spacer unit={4} />
+      <span>{translate('yubikey_passphrase_warning')}</span>
+    </div>
+  )
+}
+
+const containerStyle = css`
+  display: flex;
+  flex-direction: column;
+  color: ${COLOR.WHITE};
+  font-size: 14px;
+
+  label {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+  }
+
+  input {
+    padding: 8px;
+    border-radius: 4px;
+    border: 1px solid ${COLOR.PURPLE_300};
+  }
+`
+
+const errorStyle = css`
+  color: ${COLOR.YELLOW_500};
+`
@@ -1,4 +1,8 @@
 import { PasskeyErrorCodes } from '@casa/device-signing/src/utils/passkeyUtils'
+import {
+  SHAMIR_MAX_SHARE_COUNT,
+  SHAMIR_MIN_THRESHOLD,
+} from '@casa/device-signing/src/utils/shamirUtils'
 import { css } from '@emotion/react'
 import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
 import CopyToClipboard from 'react-copy-to-clipboard'
@@ -21,6 +25,7 @@ import {
   WarningBanner,
 } from 'src/features/device-signing/components/HelpBanners'
 import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import PassphraseInput from 'src/features/device-signing/components/PassphraseInput'
 import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
 import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
 import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
@@ -38,7 +43,18 @@ import { SeedPhrase } from 'src/types/Wallet'
  * issues.
  */
 export default function YubikeyExport() {
-  const { step } = useDeviceNavigation()
+  const { step, onForward } = useDeviceNavigation()
+  const { phraseError } = useWebWallet()
+
+  // The seed phrase is dropped after a while, wherever the export is left off
+  useEffect(() => {
+    if (
+      phraseError?.code === PasskeyErrorCodes.SESSION_EXPIRED &&
+      step !== DEVICE_STEPS.YUBIKEY_EXPORT_ERROR
+    ) {
+      void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_ERROR)
+    }
+  }, [phraseError, step, onForward])
 
   switch (step) {
     case DEVICE_STEPS.YUBIKEY_EXPORT_START:
@@ -49,6 +65,12 @@ export default function YubikeyExport() {
       return <ExportView />
     case DEVICE_STEPS.YUBIKEY_EXPORT_TEST:
       return <ExportTest />
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_CONFIG:
+      return <ExportSharesConfig />
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW:
+      return <ExportShareView />
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_TEST:
+      return <ExportShareTest />
     case DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS:
       return <ExportSuccess />
     case DEVICE_STEPS.YUBIKEY_EXPORT_ERROR:
@@ -105,6 +127,8 @@ export function ExportStart() {
             warningLabel={translate('important')}
             warnings={[<CopyLocation />]}
           />
+          <Spacer unit={8} />
+          <PassphraseInput />
         </>
       ) : (
         <Fragment />
@@ -169,6 +193,10 @@ function ExportView() {
     void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS)
   }
 
+  const onSplit = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_CONFIG)
+  }
+
   return (
     <DeviceConfirmation
       elementCss={extendedContainerStyles}
@@ -184,6 +212,171 @@ function ExportView() {
       secondaryButton={
         <SecondaryButton onClick={onSkip}>{translate('skip')}</SecondaryButton>
       }
+    >
+      <>
+        <Spacer unit={8} />
+        <ButtonAsLink onClick={onSplit}>
+          {translate('yubikey_export_shares_cta')}
+        </ButtonAsLink>
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+// The default split, any two of three shares recover the seed phrase
+const DEFAULT_SHARE_THRESHOLD = 2
+const DEFAULT_SHARE_COUNT = 3
+
+// Every share count SLIP-39 allows, starting from the minimum threshold
+const SHARE_COUNT_OPTIONS = Array.from(
+  { length: SHAMIR_MAX_SHARE_COUNT - SHAMIR_MIN_THRESHOLD + 1 },
+  (_, index) => SHAMIR_MIN_THRESHOLD + index,
+)
+
+/**
+ * Lets the user choose how many SLIP-39 shares to create, and how many of them are
+ * required to recover the seed phrase, before any share is shown. The shares encode the
+ * BIP39 entropy, so they only recover the seed phrase through this app, and never hold the
+ * passphrase.
+ */
+function ExportSharesConfig() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { splitPhrase, shares, phraseError, hasPassphrase } = useWebWallet()
+
+  const [threshold, setThreshold] = useState<number>(DEFAULT_SHARE_THRESHOLD)
+  const [shareCount, setShareCount] = useState<number>(DEFAULT_SHARE_COUNT)
+  const [isSubmitted, setIsSubmitted] = useState<boolean>(false)
+
+  const thresholdOptions = SHARE_COUNT_OPTIONS.filter(
+    (count) => count <= shareCount,
+  )
+
+  const onChangeShareCount = (count: number) => {
+    setShareCount(count)
+    setThreshold((previous) => Math.min(previous, count))
+  }
+
+  const onContinue = () => {
+    setIsSubmitted(true)
+    splitPhrase({ threshold, shareCount })
+  }
+
+  const onGoBack = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_VIEW)
+  }
+
+  useEffect(() => {
+    if (isSubmitted && phraseError != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_ERROR)
+      return
+    }
+
+    if (isSubmitted && shares != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW)
+    }
+  }, [isSubmitted, shares, phraseError, onForward])
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_CONFIG}
+      title={translate('yubikey_export_shares_config_title')}
+      subTitle={translate('yubikey_export_shares_config_subtitle')}
+      interaction={
+        <div css={shareConfigStyle}>
+          <label>
+            {translate('yubikey_export_shares_count_label')}
+            <select
+              value={shareCount}
+              onChange={(event) =>
+                onChangeShareCount(Number(event.target.value))
+              }
+            >
+              {SHARE_COUNT_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {translate('yubikey_export_shares_threshold_label')}
+            <select
+              value={threshold}
+              onChange={(event) => setThreshold(Number(event.target.value))}
+            >
+              {thresholdOptions.map((count) => (
+                <option key={count} value={count}>
+                  {count}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton onClick={onGoBack}>
+          {translate('go_back')}
+        </SecondaryButton>
+      }
+    >
+      <>
+        <Spacer unit={12} />
+        <WarningBanner
+          warningLabel={translate('important')}
+          warnings={[
+            translate('yubikey_export_shares_warning', {
+              threshold,
+              shareCount,
+            }),
+            translate('yubikey_export_shares_app_only_warning'),
+            ...(hasPassphrase
+              ? [translate('yubikey_export_shares_passphrase_warning')]
+              : []),
+          ]}
+        />
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+// Shows the share currently being verified, one share at a time
+function ExportShareView() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { shares, verifiedShareCount } = useWebWallet()
+
+  const onContinue = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_TEST)
+  }
+
+  const share = shares?.[verifiedShareCount]
+
+  if (shares == null || share == null) {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_ERROR)
+    return <Fragment />
+  }
+
+  return (
+    <DeviceConfirmation
+      elementCss={extendedContainerStyles}
+      key={`${DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW}-${verifiedShareCount}`}
+      title={translate('yubikey_export_share_view_title', {
+        current: verifiedShareCount + 1,
+        total: shares.length,
+      })}
+      subTitle={translate('yubikey_export_share_view_subtitle')}
+      interaction={<SeedPhraseWords seedPhrase={share as SeedPhrase} />}
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('yubikey_export_view_cta')}
+        </DefaultButton>
+      }
     />
   )
 }
@@ -191,6 +384,24 @@ function ExportView() {
 // Controls minimum toast frequency for consecutive incorrect seed phrase words selections
 const VERIFY_ERROR_RATE_LIMIT_MS = 5000
 
+// One word is verified from each group of this many words, so longer phrases verify more words
+const VERIFY_WORD_GROUP_SIZE = 12
+
+/**
+ * Picks a random word index from each group of `VERIFY_WORD_GROUP_SIZE` words, e.g. one word
+ * for a 12 word phrase and two words, one from each half, for a 24 word phrase.
+ */
+function getVerifyIndexes(phraseLength: number): number[] {
+  const indexes: number[] = []
+
+  for (let start = 0; start < phraseLength; start += VERIFY_WORD_GROUP_SIZE) {
+    const groupLength = Math.min(VERIFY_WORD_GROUP_SIZE, phraseLength - start)
+    indexes.push(start + Math.floor(Math.random() * groupLength))
+  }
+
+  return indexes
+}
+
 /**
  * Success state for the Yubikey setup process with the
  * option to continue to a seedPhrase recovery process
@@ -202,6 +413,7 @@ function ExportTest() {
   const { phrase, phraseConfirmed, onConfirmPhrase } = useWebWallet()
   const [selected, setSelected] = useState<number | null>(null)
   const [isIncorrect, setIsIncorrect] = useState<boolean>(false)
+  const [verifiedCount, setVerifiedCount] = useState<number>(0)
 
   const onGoBack = () => {
     void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_VIEW)
@@ -211,19 +423,28 @@ function ExportTest() {
     void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS)
   }
 
-  const targetIndex = useMemo(() => {
-    return phrase != null ? Math.floor(Math.random() * phrase.length) : 0
+  const targetIndexes = useMemo(() => {
+    return phrase != null ? getVerifyIndexes(phrase.length) : [0]
   }, [phrase])
 
+  const targetIndex = targetIndexes[verifiedCount] ?? 0
+
   useEffect(() => {
     if (selected === targetIndex) {
+      // Move on to the next word, or confirm once every group has been verified
+      if (verifiedCount + 1 < targetIndexes.length) {
+        setVerifiedCount(verifiedCount + 1)
+        setSelected(null)
+        return
+      }
+
       onConfirmPhrase()
     }
 
     if (selected != null && selected !== targetIndex) {
       setIsIncorrect(true)
     }
-  }, [selected, targetIndex, onConfirmPhrase])
+  }, [selected, targetIndex, targetIndexes, verifiedCount, onConfirmPhrase])
 
   /**
    * Rate-limited toast display on incorrect seed phrase selections. Multiple
@@ -260,6 +481,14 @@ function ExportTest() {
         `,
       ]}
       subTitle={translate('yubikey_export_test_subtitle')}
+      additionalInstructions={
+        targetIndexes.length > 1
+          ? translate('yubikey_export_test_progress', {
+              current: verifiedCount + 1,
+              total: targetIndexes.length,
+            })
+          : undefined
+      }
       interaction={
         <SeedPhraseVerifyWord
           seedPhrase={phrase as SeedPhrase}
@@ -280,6 +509,128 @@ function ExportTest() {
   )
 }
 
+/**
+ * Verifies the share currently shown by `ExportShareView` the same way `ExportTest` verifies
+ * the seed phrase. The seed phrase is confirmed once every share has been verified.
+ */
+function ExportShareTest() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const {
+    shares,
+    verifiedShareCount,
+    onConfirmShare,
+    phraseConfirmed,
+    onConfirmPhrase,
+  } = useWebWallet()
+  const [selected, setSelected] = useState<number | null>(null)
+  const [isIncorrect, setIsIncorrect] = useState<boolean>(false)
+  const [verifiedCount, setVerifiedCount] = useState<number>(0)
+
+  const share = shares?.[verifiedShareCount]
+
+  const onGoBack = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW)
+  }
+
+  const targetIndexes = useMemo(() => {
+    return share != null ? getVerifyIndexes(share.length) : [0]
+  }, [share])
+
+  const targetIndex = targetIndexes[verifiedCount] ?? 0
+
+  useEffect(() => {
+    if (shares == null || selected !== targetIndex) {
+      if (selected != null && selected !== targetIndex) {
+        setIsIncorrect(true)
+      }
+      return
+    }
+
+    // Move on to the next word, the next share, or confirm once every share is verified
+    if (verifiedCount + 1 < targetIndexes.length) {
+      setVerifiedCount(verifiedCount + 1)
+      setSelected(null)
+      return
+    }
+
+    if (verifiedShareCount + 1 < shares.length) {
+      onConfirmShare()
+      toast.dismiss()
+      void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW)
+      return
+    }
+
+    onConfirmPhrase()
+  }, [
+    selected,
+    targetIndex,
+    targetIndexes,
+    verifiedCount,
+    shares,
+    verifiedShareCount,
+    onConfirmShare,
+    onConfirmPhrase,
+    onForward,
+  ])
+
+  // Rate-limited toast display on incorrect share word selections, as in `ExportTest`
+  useEffect(() => {
+    if (isIncorrect) {
+      toast.error(translate('yubikey_export_test_error'))
+      setTimeout(() => setIsIncorrect(false), VERIFY_ERROR_RATE_LIMIT_MS)
+    }
+  }, [isIncorrect, translate])
+
+  useEffect(() => {
+    if (phraseConfirmed === true) {
+      toast.dismiss()
+      void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS)
+    }
+  }, [phraseConfirmed, onForward])
+
+  if (shares == null || share == null) {
+    void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_ERROR)
+    return <Fragment />
+  }
+
+  return (
+    <DeviceConfirmation
+      key={`${DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_TEST}-${verifiedShareCount}`}
+      title={translate('yubikey_export_share_test_title', {
+        current: verifiedShareCount + 1,
+        total: shares.length,
+      })}
+      elementCss={[
+        extendedContainerStyles,
+        css`
+          width: auto;
+        `,
+      ]}
+      subTitle={translate('yubikey_export_test_subtitle')}
+      additionalInstructions={
+        targetIndexes.length > 1
+          ? translate('yubikey_export_test_progress', {
+              current: verifiedCount + 1,
+              total: targetIndexes.length,
+            })
+          : undefined
+      }
+      interaction={
+        <SeedPhraseVerifyWord
+          seedPhrase={share as SeedPhrase}
+          verify={targetIndex}
+          selected={selected}
+          setSelected={setSelected}
+        />
+      }
+      primaryButton={
+        <DefaultButton onClick={onGoBack}>{translate('go_back')}</DefaultButton>
+      }
+    />
+  )
+}
+
 /**
  * Success state for the Yubikey setup process with the
  * option to continue to a seedPhrase recovery process
@@ -330,10 +681,22 @@ function ExportError() {
     await onForward(DEVICE_STEPS.YUBIKEY_EXPORT_LOAD)
   }, [onForward, resetErrors])
 
-  const subtitle =
-    phraseError?.code === PasskeyErrorCodes.FAILED_READ
-      ? translate('yubikey_error_wrong_yubikey')
-      : translate('yubikey_error_dismissed')
+  const subtitle = useMemo(() => {
+    switch (phraseError?.code) {
+      case PasskeyErrorCodes.FAILED_READ:
+        return translate('yubikey_error_wrong_yubikey')
+      case PasskeyErrorCodes.CORRUPTED_BLOB:
+        return translate('yubikey_error_corrupted_blob')
+      case PasskeyErrorCodes.PASSPHRASE_REQUIRED:
+        return translate('yubikey_error_passphrase_required')
+      case PasskeyErrorCodes.INVALID_PASSPHRASE:
+        return translate('yubikey_error_invalid_passphrase')
+      case PasskeyErrorCodes.SESSION_EXPIRED:
+        return translate('yubikey_error_phrase_expired')
+      default:
+        return translate('yubikey_error_dismissed')
+    }
+  }, [phraseError, translate])
 
   const supportInfo = translate('yubikey_error_footer_seed', {
     troubleshootingLink: DEVICE_LINKS.SEED_PHRASE_EXPOSURE,
@@ -363,6 +726,13 @@ function ExportError() {
       }
     >
       <Fragment>
+        {(phraseError?.code === PasskeyErrorCodes.PASSPHRASE_REQUIRED ||
+          phraseError?.code === PasskeyErrorCodes.INVALID_PASSPHRASE) && (
+          <>
+            <Spacer unit={8} />
+            <PassphraseInput defaultOpen />
+          </>
+        )}
         <Spacer unit={8} />
         <TroubleshootingFooter supportInfo={supportInfo} />
       </Fragment>
@@ -423,6 +793,26 @@ const paragraphStyle = css`
   }
 `
 
+const shareConfigStyle = css`
+  display: flex;
+  justify-content: center;
+  gap: 24px;
+  color: ${COLOR.WHITE};
+  font-size: 14px;
+
+  label {
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+  }
+
+  select {
+    padding: 8px;
+    border-radius: 4px;
+    border: 1px solid ${COLOR.PURPLE_300};
+  }
+`
+
 /**
  *  The longer headline and seed phrase view requires a wider container
  *  and distinct button layout. These files must override the default parent
@@ -0,0 +1,212 @@
+import {
+  SUPPORTED_IMPORT_WORD_COUNTS,
+  validateSeedPhraseWords,
+} from '@casa/device-signing/src/passkeyDevice'
+import { css } from '@emotion/react'
+import { useMemo, useState } from 'react'
+
+import Spacer from 'src/components/Spacer'
+import COLOR from 'src/constants/color'
+import { MIN_MEDIA } from 'src/constants/media-query'
+import {
+  DefaultButton,
+  SecondaryButton,
+} from 'src/features/device-signing/components/Buttons'
+import DeviceConfirmation from 'src/features/device-signing/components/DeviceConfirmation'
+import { WarningBanner } from 'src/features/device-signing/components/HelpBanners'
+import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
+import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
+import { useWebWallet } from 'src/features/device-signing/hooks/useWebWallet'
+import useTranslate from 'src/hooks/useTranslate'
+
+// Word counts offered in the entry form, the most common lengths among other wallets
+const IMPORT_WORD_COUNT_OPTIONS = [12, 18, 24].filter((count) =>
+  SUPPORTED_IMPORT_WORD_COUNTS.includes(count),
+)
+
+/**
+ * Word-by-word seed phrase entry for restoring an existing wallet onto a YubiKey. Each word
+ * is checked against the BIP39 wordlist as it is typed, and the phrase checksum is checked
+ * once every word is filled in. The phrase is handed to the web wallet context only when
+ * valid, and is never rendered back once the user moves on.
+ */
+export default function YubikeyImportEntry() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { setImportPhrase } = useWebWallet()
+
+  const [wordCount, setWordCount] = useState<number>(
+    IMPORT_WORD_COUNT_OPTIONS[0],
+  )
+  const [words, setWords] = useState<string[]>(() =>
+    new Array(IMPORT_WORD_COUNT_OPTIONS[0]).fill(''),
+  )
+
+  const { invalidWordIndexes, isComplete, isChecksumValid } = useMemo(
+    () => validateSeedPhraseWords(words),
+    [words],
+  )
+
+  const onChangeWordCount = (count: number) => {
+    setWordCount(count)
+    setWords((previous) =>
+      new Array(count).fill('').map((_, index) => previous[index] ?? ''),
+    )
+  }
+
+  const onChangeWord = (index: number, value: string) => {
+    // Pasting a whole phrase into any field fills every field
+    const pastedWords = value.trim().split(/\s+/)
+
+    if (pastedWords.length === wordCount) {
+      setWords(pastedWords)
+      return
+    }
+
+    setWords((previous) =>
+      previous.map((word, wordIndex) =>
+        wordIndex === index ? value.trim() : word,
+      ),
+    )
+  }
+
+  const onContinue = () => {
+    setImportPhrase(words.join(' '))
+    setWords(new Array(wordCount).fill(''))
+    void onForward(DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY)
+  }
+
+  const feedback = useMemo(() => {
+    if (invalidWordIndexes.length > 0) {
+      return translate('yubikey_import_invalid_words', {
+        positions: invalidWordIndexes.map((index) => index + 1).join(', '),
+      })
+    }
+
+    if (isComplete && !isChecksumValid) {
+      return translate('yubikey_import_invalid_checksum')
+    }
+
+    if (isChecksumValid) {
+      return translate('yubikey_import_valid_checksum')
+    }
+
+    return null
+  }, [invalidWordIndexes, isComplete, isChecksumValid, translate])
+
+  return (
+    <DeviceConfirmation
+      elementCss={extendedContainerStyles}
+      key={DEVICE_STEPS.YUBIKEY_IMPORT_ENTRY}
+      title={translate('yubikey_import_entry_title')}
+      subTitle={translate('yubikey_import_entry_subtitle')}
+      interaction={
+        <div css={entryStyle}>
+          <div css={wordCountStyle}>
+            {IMPORT_WORD_COUNT_OPTIONS.map((count) => (
+              <SecondaryButton
+                key={count}
+                onClick={() => onChangeWordCount(count)}
+                disabled={count === wordCount}
+              >
+                {translate('yubikey_import_word_count', { count })}
+              </SecondaryButton>
+            ))}
+          </div>
+          <Spacer unit={8} />
+          <ol css={wordGridStyle}>
+            {words.map((word, index) => (
+              <li key={index}>
+                <input
+                  type='text'
+                  autoComplete='off'
+                  autoCapitalize='off'
+                  spellCheck={false}
+                  value={word}
+                  aria-invalid={invalidWordIndexes.includes(index)}
+                  onChange={(event) => onChangeWord(index, event.target.value)}
+                />
+              </li>
+            ))}
+          </ol>
+          {feedback != null && (
+            <span css={isChecksumValid ? validStyle : invalidStyle}>
+              {feedback}
+            </span>
+          )}
+        </div>
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue} disabled={!isChecksumValid}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    >
+      <>
+        <Spacer unit={12} />
+        <WarningBanner
+          warningLabel={translate('important')}
+          warnings={[translate('yubikey_import_warning')]}
+        />
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+const entryStyle = css`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+`
+
+const wordCountStyle = css`
+  display: flex;
+  gap: 8px;
+`
+
+const wordGridStyle = css`
+  display: grid;
+  grid-template-columns: repeat(3, 1fr);
+  gap: 8px 24px;
+  padding-left: 24px;
+  color: ${COLOR.WHITE};
+
+  ${MIN_MEDIA.$800} {
+    grid-template-columns: repeat(4, 1fr);
+  }
+
+  input {
+    width: 100%;
+    padding: 6px;
+    border-radius: 4px;
+    border: 1px solid ${COLOR.PURPLE_300};
+  }
+
+  input[aria-invalid='true'] {
+    border-color: ${COLOR.YELLOW_500};
+  }
+`
+
+const validStyle = css`
+  color: ${COLOR.TEAL_500};
+`
+
+const invalidStyle = css`
+  color: ${COLOR.YELLOW_500};
+`
+
+// Matches the wider container used for seed phrase display in `YubikeyExport`
+const extendedContainerStyles = css`
+  ${MIN_MEDIA.$800} {
+    width: 675px;
+    left: -40px;
+    position: relative;
+  }
+`
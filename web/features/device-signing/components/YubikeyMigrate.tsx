@@ -0,0 +1,215 @@
+import { PasskeyErrorCodes } from '@casa/device-signing/src/utils/passkeyUtils'
+import { css } from '@emotion/react'
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+
+import Spacer from 'src/components/Spacer'
+import COLOR from 'src/constants/color'
+import LINK from 'src/constants/link'
+import {
+  DefaultButton,
+  SecondaryButton,
+} from 'src/features/device-signing/components/Buttons'
+import DeviceConfirmation from 'src/features/device-signing/components/DeviceConfirmation'
+import {
+  InstructionsBanner,
+  TroubleshootingFooter,
+} from 'src/features/device-signing/components/HelpBanners'
+import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
+import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
+import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
+import { useWebWallet } from 'src/features/device-signing/hooks/useWebWallet'
+import useTranslate from 'src/hooks/useTranslate'
+import { ReactComponent as AlertCircleThin } from 'src/images/alert-circle-thin-icon.svg'
+import { ReactComponent as CheckmarkCircleThin } from 'src/images/checkmark-circle-thin-icon.svg'
+import { ReactComponent as YubikeyIcon } from 'src/images/yubikey-icon.svg'
+
+/**
+ * Controls display for upgrading the seed phrase encoding on an existing passkey device.
+ * The seed phrase is read and re-written in place, so the wallet and xpub are unchanged.
+ */
+export default function YubikeyMigrate() {
+  const { step } = useDeviceNavigation()
+
+  switch (step) {
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_START:
+      return <MigrateStart />
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD:
+      return <MigrateLoading />
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_SUCCESS:
+      return <MigrateSuccess />
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_ERROR:
+    default:
+      return <MigrateError />
+  }
+}
+
+// Explains the three prompts required to upgrade the device
+function MigrateStart() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onContinue = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD)
+  }
+
+  return (
+    <DeviceConfirmation
+      titleIcon={<YubikeyIcon />}
+      key={DEVICE_STEPS.YUBIKEY_MIGRATE_START}
+      title={translate('yubikey_migrate_start_title')}
+      subTitle={translate('yubikey_migrate_start_subtitle')}
+      interaction={
+        <InstructionsBanner
+          label={translate('yubikey_reauth_instruction_title')}
+          instructions={[
+            translate('yubikey_migrate_instruction_1'),
+            translate('yubikey_migrate_instruction_2'),
+            translate('yubikey_migrate_instruction_3'),
+          ]}
+        />
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    />
+  )
+}
+
+/**
+ * Loading state in charge of showing the browser spinner during the read,
+ * write, and verification authentication calls
+ */
+function MigrateLoading() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { migrateBlob, migrationError, migratedBlobVersion } = useWebWallet()
+
+  const [passkeyPrompted, setPasskeyPrompted] = useState(false)
+
+  useEffect(() => {
+    if (passkeyPrompted === true) {
+      return
+    }
+
+    setPasskeyPrompted(true)
+    void migrateBlob()
+  }, [passkeyPrompted, migrateBlob])
+
+  useEffect(() => {
+    const isSuccessful = migratedBlobVersion !== null && migrationError == null
+
+    if (isSuccessful === true) {
+      void onForward(DEVICE_STEPS.YUBIKEY_MIGRATE_SUCCESS)
+      return
+    }
+
+    if (migrationError != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_MIGRATE_ERROR)
+      return
+    }
+  }, [migrationError, migratedBlobVersion, onForward])
+
+  return (
+    <PasskeyLoading
+      key={DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD}
+      subTitle={translate('yubikey_migrate_loading_body')}
+      warnings={[
+        translate('yubikey_warning_password_manager'),
+        translate('yubikey_warning_prompt_selection'),
+      ]}
+    />
+  )
+}
+
+// Success state for the blob migration process
+function MigrateSuccess() {
+  const { translate } = useTranslate()
+
+  return (
+    <DeviceConfirmation
+      titleIcon={
+        <CheckmarkCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.TEAL_500};
+            }
+          `}
+        />
+      }
+      key={DEVICE_STEPS.YUBIKEY_MIGRATE_SUCCESS}
+      title={translate('yubikey_migrate_success_title')}
+      subTitle={translate('yubikey_migrate_success_subtitle')}
+    />
+  )
+}
+
+// Error handling for the blob migration process
+function MigrateError() {
+  const { migrationError, resetErrors } = useWebWallet()
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onTryAgain = useCallback(async () => {
+    resetErrors()
+    await onForward(DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD)
+  }, [onForward, resetErrors])
+
+  const subtitle = useMemo(() => {
+    switch (migrationError?.code) {
+      case PasskeyErrorCodes.FAILED_READ:
+        return translate('yubikey_error_wrong_yubikey')
+      case PasskeyErrorCodes.CORRUPTED_BLOB:
+        return translate('yubikey_error_corrupted_blob')
+      case PasskeyErrorCodes.INCORRECT_STATE:
+        return translate('yubikey_migrate_error_current')
+      default:
+        return translate('yubikey_error_dismissed')
+    }
+  }, [migrationError, translate])
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_MIGRATE_ERROR}
+      titleIcon={
+        <AlertCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.YELLOW_500};
+            }
+          `}
+        />
+      }
+      title={translate('yubikey_error_title')}
+      subTitle={subtitle}
+      primaryButton={
+        <DefaultButton onClick={onTryAgain}>
+          {translate('try_again')}
+        </DefaultButton>
+      }
+    >
+      <Fragment>
+        <Spacer unit={8} />
+        <TroubleshootingFooter
+          supportInfo={translate('yubikey_error_footer_setup', {
+            troubleshootingLink: DEVICE_LINKS.TROUBLESHOOT_YUBIKEY_SETUP,
+            supportLink: LINK.YUBIKEY_SETUP_SUPPORT,
+          })}
+        />
+      </Fragment>
+    </DeviceConfirmation>
+  )
+}
@@ -25,10 +25,15 @@ import {
   WarningBanner,
 } from 'src/features/device-signing/components/HelpBanners'
 import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import PassphraseInput from 'src/features/device-signing/components/PassphraseInput'
 import RequireChrome from 'src/features/device-signing/components/RequireChrome'
 import YubikeyExport, {
   CopyLocation,
 } from 'src/features/device-signing/components/YubikeyExport'
+import YubikeyImportEntry from 'src/features/device-signing/components/YubikeyImport'
+import YubikeyMigrate from 'src/features/device-signing/components/YubikeyMigrate'
+import YubikeyReplace from 'src/features/device-signing/components/YubikeyReplace'
+import YubikeyWipe from 'src/features/device-signing/components/YubikeyWipe'
 import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
 import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
 import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
@@ -54,8 +59,14 @@ export function YubikeySetup() {
   switch (step) {
     case DEVICE_STEPS.YUBIKEY_START:
       return <YubikeySetupStart />
+    case DEVICE_STEPS.YUBIKEY_IMPORT_ENTRY:
+      return <YubikeyImportEntry />
     case DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY:
       return <YubikeyPasskeyLoading />
+    case DEVICE_STEPS.YUBIKEY_BACKUP_START:
+      return <YubikeyBackupStart />
+    case DEVICE_STEPS.YUBIKEY_BACKUP_INTERACT_PASSKEY:
+      return <YubikeyPasskeyLoading isBackup />
     case DEVICE_STEPS.YUBIKEY_SETUP_CONFIRM:
       return <YubikeySetupConfirm />
     case DEVICE_STEPS.YUBIKEY_INTERACT_WALLET:
@@ -66,9 +77,27 @@ export function YubikeySetup() {
     case DEVICE_STEPS.YUBIKEY_EXPORT_LOAD:
     case DEVICE_STEPS.YUBIKEY_EXPORT_VIEW:
     case DEVICE_STEPS.YUBIKEY_EXPORT_TEST:
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_CONFIG:
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW:
+    case DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_TEST:
     case DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS:
     case DEVICE_STEPS.YUBIKEY_EXPORT_ERROR:
       return <YubikeyExport />
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_START:
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD:
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_SUCCESS:
+    case DEVICE_STEPS.YUBIKEY_MIGRATE_ERROR:
+      return <YubikeyMigrate />
+    case DEVICE_STEPS.YUBIKEY_REPLACE_START:
+    case DEVICE_STEPS.YUBIKEY_REPLACE_LOAD:
+    case DEVICE_STEPS.YUBIKEY_REPLACE_SUCCESS:
+    case DEVICE_STEPS.YUBIKEY_REPLACE_ERROR:
+      return <YubikeyReplace />
+    case DEVICE_STEPS.YUBIKEY_WIPE_START:
+    case DEVICE_STEPS.YUBIKEY_WIPE_LOAD:
+    case DEVICE_STEPS.YUBIKEY_WIPE_SUCCESS:
+    case DEVICE_STEPS.YUBIKEY_WIPE_ERROR:
+      return <YubikeyWipe />
     case DEVICE_STEPS.YUBIKEY_ERROR:
     default:
       return <YubikeyError />
@@ -79,11 +108,16 @@ export function YubikeySetup() {
 export function YubikeySetupStart() {
   const { translate } = useTranslate()
 
-  const { passkeyError } = useWebWallet()
+  const { passkeyError, isImport } = useWebWallet()
   const { onForward } = useDeviceNavigation()
 
+  // Imports collect the seed phrase before a passkey is created for it
   const onContinue = () => {
-    void onForward(DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY)
+    void onForward(
+      isImport
+        ? DEVICE_STEPS.YUBIKEY_IMPORT_ENTRY
+        : DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY,
+    )
   }
 
   useEffect(() => {
@@ -122,16 +156,22 @@ export function YubikeySetupStart() {
             <CopyLocation />,
           ]}
         />
+        <Spacer unit={8} />
+        <PassphraseInput requireConfirmation />
       </>
     </DeviceConfirmation>
   )
 }
 
-// Loading state in charge of showing the browser spinner during the attestation call
-export function YubikeyPasskeyLoading() {
+/**
+ * Loading state in charge of showing the browser spinner during the attestation call
+ *
+ * @param isBackup creates the passkey on the backup YubiKey, once the primary passkey exists
+ */
+export function YubikeyPasskeyLoading({ isBackup }: { isBackup?: boolean }) {
   const { translate } = useTranslate()
   const { onForward } = useDeviceNavigation()
-  const { createPasskey } = useWebWallet()
+  const { createPasskey, withBackupKey } = useWebWallet()
 
   const [passkeyPrompted, setPasskeyPrompted] = useState(false)
 
@@ -141,16 +181,24 @@ export function YubikeyPasskeyLoading() {
     }
 
     setPasskeyPrompted(true)
-    void createPasskey()
-  }, [passkeyPrompted, createPasskey])
+    void createPasskey({ isBackup })
+  }, [passkeyPrompted, createPasskey, isBackup])
 
-  const { passkeyLoading, passkeyError, credentialId } = useWebWallet()
+  const { passkeyLoading, passkeyError, credentialId, backupCredentialId } =
+    useWebWallet()
 
   useEffect(() => {
-    const isSuccessful = credentialId !== null && passkeyError == null
+    const createdCredentialId =
+      isBackup === true ? backupCredentialId : credentialId
+    const isSuccessful = createdCredentialId !== null && passkeyError == null
 
+    // The backup passkey is created before any seed phrase is written
     if (isSuccessful === true) {
-      void onForward(DEVICE_STEPS.YUBIKEY_SETUP_CONFIRM)
+      void onForward(
+        isBackup !== true && withBackupKey
+          ? DEVICE_STEPS.YUBIKEY_BACKUP_START
+          : DEVICE_STEPS.YUBIKEY_SETUP_CONFIRM,
+      )
       return
     }
 
@@ -158,11 +206,23 @@ export function YubikeyPasskeyLoading() {
       void onForward(DEVICE_STEPS.YUBIKEY_ERROR)
       return
     }
-  }, [passkeyLoading, passkeyError, credentialId, onForward])
+  }, [
+    passkeyLoading,
+    passkeyError,
+    credentialId,
+    backupCredentialId,
+    isBackup,
+    withBackupKey,
+    onForward,
+  ])
 
   return (
     <PasskeyLoading
-      key={DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY}
+      key={
+        isBackup === true
+          ? DEVICE_STEPS.YUBIKEY_BACKUP_INTERACT_PASSKEY
+          : DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY
+      }
       subTitle={translate('yubikey_setup_loading_body')}
       warnings={[
         translate('yubikey_warning_password_manager'),
@@ -172,10 +232,44 @@ export function YubikeyPasskeyLoading() {
   )
 }
 
+// Asks the user to swap the primary YubiKey for the backup YubiKey
+function YubikeyBackupStart() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onContinue = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_BACKUP_INTERACT_PASSKEY)
+  }
+
+  return (
+    <DeviceConfirmation
+      titleIcon={<YubikeyIcon />}
+      key={DEVICE_STEPS.YUBIKEY_BACKUP_START}
+      title={translate('yubikey_backup_start_title')}
+      subTitle={translate('yubikey_backup_start_subtitle')}
+      interaction={
+        <InstructionsBanner
+          label={translate('yubikey_reauth_instruction_title')}
+          instructions={[
+            translate('yubikey_backup_instruction_1'),
+            translate('yubikey_backup_instruction_2'),
+          ]}
+        />
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+    />
+  )
+}
+
 // Success state for the passkey creation process
 function YubikeySetupConfirm() {
   const { translate } = useTranslate()
   const { onForward } = useDeviceNavigation()
+  const { withBackupKey } = useWebWallet()
 
   const onContinue = () => {
     void onForward(DEVICE_STEPS.YUBIKEY_INTERACT_WALLET)
@@ -193,6 +287,9 @@ function YubikeySetupConfirm() {
             translate('yubikey_reauth_instruction_1'),
             translate('yubikey_reauth_instruction_2'),
             translate('yubikey_reauth_instruction_3'),
+            ...(withBackupKey
+              ? [translate('yubikey_reauth_instruction_backup')]
+              : []),
           ]}
         />
       }
@@ -215,8 +312,13 @@ const WALLET_LOADING_TIME_MIN_MS = 3000
 function YubikeyWalletLoading() {
   const { translate } = useTranslate()
   const { onForward } = useDeviceNavigation()
-  const { xPub, createWallet, walletError, deviceUpdateLoading } =
-    useWebWallet()
+  const {
+    xPub,
+    createWallet,
+    walletError,
+    deviceUpdateLoading,
+    withBackupKey,
+  } = useWebWallet()
 
   const [passkeyPrompted, setPasskeyPrompted] = useState(false)
   const [minimumTimePassed, setMinimumTimePassed] =
@@ -285,6 +387,7 @@ function YubikeyWalletLoading() {
       warnings={[
         translate('yubikey_warning_password_manager'),
         translate('yubikey_warning_prompt_selection'),
+        ...(withBackupKey ? [translate('yubikey_warning_backup_swap')] : []),
       ]}
     />
   )
@@ -293,14 +396,16 @@ function YubikeyWalletLoading() {
 /**
  * Success state for the Yubikey setup process with the
  * option to continue to a seedPhrase recovery process
- * depending on a feature flag
+ * depending on a feature flag. Imported seed phrases are
+ * already backed up, so no export is offered for them.
  */
 function YubikeySuccess() {
   const { translate } = useTranslate()
   const { featureFlags } = useFeatureFlags()
   const { onForward } = useDeviceNavigation()
+  const { isImport } = useWebWallet()
 
-  if (featureFlags.enableYubikeySeedExport) {
+  if (featureFlags.enableYubikeySeedExport && !isImport) {
     const onExport = () => {
       void onForward(DEVICE_STEPS.YUBIKEY_EXPORT_START)
     }
@@ -365,7 +470,13 @@ function YubikeySuccess() {
  * show the user a message and a call to action to try again
  */
 function YubikeyError() {
-  const { passkeyError, walletError, resetErrors } = useWebWallet()
+  const {
+    passkeyError,
+    walletError,
+    resetErrors,
+    credentialId,
+    withBackupKey,
+  } = useWebWallet()
   const { translate } = useTranslate()
   const { onForward } = useDeviceNavigation()
 
@@ -381,6 +492,11 @@ function YubikeyError() {
             }),
             tips: [translate('yubikey_error_tip_failed_write')],
           }
+        case PasskeyErrorCodes.BLOB_TOO_LARGE:
+          return {
+            subtitle: translate('yubikey_error_blob_too_large'),
+            tips: [translate('yubikey_error_tip_blob_too_large')],
+          }
         default:
           return {
             subtitle: translate('yubikey_error_dismissed'),
@@ -421,9 +537,14 @@ function YubikeyError() {
   }, [passkeyError, walletError, translate])
 
   const onTryAgain = useCallback(async () => {
+    // Once the primary passkey exists, a failed attestation was for the backup passkey
     if (passkeyError !== null) {
       resetErrors()
-      await onForward(DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY)
+      await onForward(
+        withBackupKey && credentialId !== null
+          ? DEVICE_STEPS.YUBIKEY_BACKUP_INTERACT_PASSKEY
+          : DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY,
+      )
       return
     }
 
@@ -431,7 +552,14 @@ function YubikeyError() {
       resetErrors()
       await onForward(DEVICE_STEPS.YUBIKEY_INTERACT_WALLET)
     }
-  }, [passkeyError, onForward, resetErrors, walletError])
+  }, [
+    passkeyError,
+    onForward,
+    resetErrors,
+    walletError,
+    credentialId,
+    withBackupKey,
+  ])
 
   return (
     <DeviceConfirmation
@@ -487,10 +615,29 @@ function SeedWarning() {
   )
 }
 
-// The provider-wrapped controller of all Yubikey register steps
-export default function YubikeyRegister({ device }: { device: Device }) {
+/**
+ * The provider-wrapped controller of all Yubikey register steps
+ *
+ * @param isImport restores an existing seed phrase onto the YubiKey instead of
+ * generating a new one
+ * @param withBackupKey provisions a second YubiKey with the same seed phrase
+ * during setup
+ */
+export default function YubikeyRegister({
+  device,
+  isImport,
+  withBackupKey,
+}: {
+  device: Device
+  isImport?: boolean
+  withBackupKey?: boolean
+}) {
   return (
-    <WebWalletProvider device={device}>
+    <WebWalletProvider
+      device={device}
+      isImport={isImport}
+      withBackupKey={withBackupKey}
+    >
       <section
         css={css`
           max-width: 620px;
@@ -509,16 +656,46 @@ export const YUBIKEY_EXPORT_STEPS = [
   DEVICE_STEPS.YUBIKEY_EXPORT_LOAD,
   DEVICE_STEPS.YUBIKEY_EXPORT_VIEW,
   DEVICE_STEPS.YUBIKEY_EXPORT_TEST,
+  DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_CONFIG,
+  DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_VIEW,
+  DEVICE_STEPS.YUBIKEY_EXPORT_SHARES_TEST,
   DEVICE_STEPS.YUBIKEY_EXPORT_SUCCESS,
   DEVICE_STEPS.YUBIKEY_EXPORT_ERROR,
 ]
 
+export const YUBIKEY_MIGRATE_STEPS = [
+  DEVICE_STEPS.YUBIKEY_MIGRATE_START,
+  DEVICE_STEPS.YUBIKEY_MIGRATE_LOAD,
+  DEVICE_STEPS.YUBIKEY_MIGRATE_SUCCESS,
+  DEVICE_STEPS.YUBIKEY_MIGRATE_ERROR,
+]
+
+export const YUBIKEY_REPLACE_STEPS = [
+  DEVICE_STEPS.YUBIKEY_REPLACE_START,
+  DEVICE_STEPS.YUBIKEY_REPLACE_LOAD,
+  DEVICE_STEPS.YUBIKEY_REPLACE_SUCCESS,
+  DEVICE_STEPS.YUBIKEY_REPLACE_ERROR,
+]
+
+export const YUBIKEY_WIPE_STEPS = [
+  DEVICE_STEPS.YUBIKEY_WIPE_START,
+  DEVICE_STEPS.YUBIKEY_WIPE_LOAD,
+  DEVICE_STEPS.YUBIKEY_WIPE_SUCCESS,
+  DEVICE_STEPS.YUBIKEY_WIPE_ERROR,
+]
+
 export const YUBIKEY_SETUP_STEPS = [
   DEVICE_STEPS.YUBIKEY_START,
+  DEVICE_STEPS.YUBIKEY_IMPORT_ENTRY,
   DEVICE_STEPS.YUBIKEY_INTERACT_PASSKEY,
+  DEVICE_STEPS.YUBIKEY_BACKUP_START,
+  DEVICE_STEPS.YUBIKEY_BACKUP_INTERACT_PASSKEY,
   DEVICE_STEPS.YUBIKEY_SETUP_CONFIRM,
   DEVICE_STEPS.YUBIKEY_INTERACT_WALLET,
   DEVICE_STEPS.YUBIKEY_SUCCESS,
   DEVICE_STEPS.YUBIKEY_ERROR,
   ...YUBIKEY_EXPORT_STEPS,
+  ...YUBIKEY_MIGRATE_STEPS,
+  ...YUBIKEY_REPLACE_STEPS,
+  ...YUBIKEY_WIPE_STEPS,
 ]
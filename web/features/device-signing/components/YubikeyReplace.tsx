@@ -0,0 +1,247 @@
+import { PasskeyErrorCodes } from '@casa/device-signing/src/utils/passkeyUtils'
+import { css } from '@emotion/react'
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+
+import Spacer from 'src/components/Spacer'
+import COLOR from 'src/constants/color'
+import LINK from 'src/constants/link'
+import {
+  DefaultButton,
+  SecondaryButton,
+} from 'src/features/device-signing/components/Buttons'
+import DeviceConfirmation from 'src/features/device-signing/components/DeviceConfirmation'
+import {
+  InstructionsBanner,
+  TroubleshootingFooter,
+} from 'src/features/device-signing/components/HelpBanners'
+import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import PassphraseInput from 'src/features/device-signing/components/PassphraseInput'
+import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
+import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
+import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
+import { useWebWallet } from 'src/features/device-signing/hooks/useWebWallet'
+import useTranslate from 'src/hooks/useTranslate'
+import { ReactComponent as AlertCircleThin } from 'src/images/alert-circle-thin-icon.svg'
+import { ReactComponent as CheckmarkCircleThin } from 'src/images/checkmark-circle-thin-icon.svg'
+import { ReactComponent as YubikeyIcon } from 'src/images/yubikey-icon.svg'
+
+/**
+ * Controls display for moving a passkey wallet from a lost or aging YubiKey to a new one.
+ * The seed phrase is cloned to a new passkey and read back before the device is rebound,
+ * so the wallet and xpub are unchanged.
+ */
+export default function YubikeyReplace() {
+  const { step } = useDeviceNavigation()
+
+  switch (step) {
+    case DEVICE_STEPS.YUBIKEY_REPLACE_START:
+      return <ReplaceStart />
+    case DEVICE_STEPS.YUBIKEY_REPLACE_LOAD:
+      return <ReplaceLoading />
+    case DEVICE_STEPS.YUBIKEY_REPLACE_SUCCESS:
+      return <ReplaceSuccess />
+    case DEVICE_STEPS.YUBIKEY_REPLACE_ERROR:
+    default:
+      return <ReplaceError />
+  }
+}
+
+// Explains the order in which each YubiKey must be inserted
+function ReplaceStart() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onContinue = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_REPLACE_LOAD)
+  }
+
+  return (
+    <DeviceConfirmation
+      titleIcon={<YubikeyIcon />}
+      key={DEVICE_STEPS.YUBIKEY_REPLACE_START}
+      title={translate('yubikey_replace_start_title')}
+      subTitle={translate('yubikey_replace_start_subtitle')}
+      interaction={
+        <InstructionsBanner
+          label={translate('yubikey_reauth_instruction_title')}
+          instructions={[
+            translate('yubikey_replace_instruction_1'),
+            translate('yubikey_replace_instruction_2'),
+            translate('yubikey_replace_instruction_3'),
+          ]}
+        />
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    >
+      <>
+        <Spacer unit={8} />
+        <PassphraseInput />
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+/**
+ * Loading state in charge of showing the browser spinner during the read of the
+ * existing YubiKey, then the creation, write, and verification of the new one
+ */
+function ReplaceLoading() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { replaceYubikey, replacementError, replacedCredentialId } =
+    useWebWallet()
+
+  const [passkeyPrompted, setPasskeyPrompted] = useState(false)
+
+  useEffect(() => {
+    if (passkeyPrompted === true) {
+      return
+    }
+
+    setPasskeyPrompted(true)
+    void replaceYubikey()
+  }, [passkeyPrompted, replaceYubikey])
+
+  useEffect(() => {
+    const isSuccessful =
+      replacedCredentialId !== null && replacementError == null
+
+    if (isSuccessful === true) {
+      void onForward(DEVICE_STEPS.YUBIKEY_REPLACE_SUCCESS)
+      return
+    }
+
+    if (replacementError != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_REPLACE_ERROR)
+      return
+    }
+  }, [replacementError, replacedCredentialId, onForward])
+
+  return (
+    <PasskeyLoading
+      key={DEVICE_STEPS.YUBIKEY_REPLACE_LOAD}
+      subTitle={translate('yubikey_replace_loading_body')}
+      warnings={[
+        translate('yubikey_warning_password_manager'),
+        translate('yubikey_warning_prompt_selection'),
+      ]}
+    />
+  )
+}
+
+// Success state for the YubiKey replacement process, offering to wipe the retired YubiKey
+function ReplaceSuccess() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onWipe = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_WIPE_START)
+  }
+
+  return (
+    <DeviceConfirmation
+      titleIcon={
+        <CheckmarkCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.TEAL_500};
+            }
+          `}
+        />
+      }
+      key={DEVICE_STEPS.YUBIKEY_REPLACE_SUCCESS}
+      title={translate('yubikey_replace_success_title')}
+      subTitle={translate('yubikey_replace_success_subtitle')}
+      primaryButton={
+        <DefaultButton onClick={onWipe}>
+          {translate('yubikey_replace_success_cta_wipe')}
+        </DefaultButton>
+      }
+    />
+  )
+}
+
+// Error handling for the YubiKey replacement process
+function ReplaceError() {
+  const { replacementError, resetErrors } = useWebWallet()
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onTryAgain = useCallback(async () => {
+    resetErrors()
+    await onForward(DEVICE_STEPS.YUBIKEY_REPLACE_LOAD)
+  }, [onForward, resetErrors])
+
+  const subtitle = useMemo(() => {
+    switch (replacementError?.code) {
+      case PasskeyErrorCodes.FAILED_READ:
+        return translate('yubikey_error_wrong_yubikey')
+      case PasskeyErrorCodes.CORRUPTED_BLOB:
+        return translate('yubikey_error_corrupted_blob')
+      case PasskeyErrorCodes.PASSPHRASE_REQUIRED:
+        return translate('yubikey_error_passphrase_required')
+      case PasskeyErrorCodes.INVALID_PASSPHRASE:
+        return translate('yubikey_error_invalid_passphrase')
+      case PasskeyErrorCodes.DUPLICATE:
+        return translate('yubikey_replace_error_same_yubikey')
+      case PasskeyErrorCodes.FAILED_WRITE:
+        return translate('yubikey_replace_error_verify')
+      default:
+        return translate('yubikey_error_dismissed')
+    }
+  }, [replacementError, translate])
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_REPLACE_ERROR}
+      titleIcon={
+        <AlertCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.YELLOW_500};
+            }
+          `}
+        />
+      }
+      title={translate('yubikey_error_title')}
+      subTitle={subtitle}
+      primaryButton={
+        <DefaultButton onClick={onTryAgain}>
+          {translate('try_again')}
+        </DefaultButton>
+      }
+    >
+      <Fragment>
+        {(replacementError?.code === PasskeyErrorCodes.PASSPHRASE_REQUIRED ||
+          replacementError?.code === PasskeyErrorCodes.INVALID_PASSPHRASE) && (
+          <>
+            <Spacer unit={8} />
+            <PassphraseInput defaultOpen />
+          </>
+        )}
+        <Spacer unit={8} />
+        <TroubleshootingFooter
+          supportInfo={translate('yubikey_error_footer_setup', {
+            troubleshootingLink: DEVICE_LINKS.TROUBLESHOOT_YUBIKEY_SETUP,
+            supportLink: LINK.YUBIKEY_SETUP_SUPPORT,
+          })}
+        />
+      </Fragment>
+    </DeviceConfirmation>
+  )
+}
@@ -1,4 +1,15 @@
+import {
+  CallKind,
+  DecodedCall,
+  flattenCalls,
+  isMultiSendDeployment,
+} from '@casa/device-signing/src/utils/calldataDecoder'
 import { PasskeyErrorCodes } from '@casa/device-signing/src/utils/passkeyUtils'
+import {
+  SafeOperation,
+  SafeTransactionReview,
+} from '@casa/device-signing/src/utils/safeTransaction'
+import { TypedDataReview } from '@casa/device-signing/src/utils/typedData'
 import { css } from '@emotion/react'
 import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
 
@@ -11,8 +22,12 @@ import {
   SecondaryButton,
 } from 'src/features/device-signing/components/Buttons'
 import DeviceConfirmation from 'src/features/device-signing/components/DeviceConfirmation'
-import { TroubleshootingFooter } from 'src/features/device-signing/components/HelpBanners'
+import {
+  TroubleshootingFooter,
+  WarningBanner,
+} from 'src/features/device-signing/components/HelpBanners'
 import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import PassphraseInput from 'src/features/device-signing/components/PassphraseInput'
 import RequireChrome from 'src/features/device-signing/components/RequireChrome'
 import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
 import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
@@ -41,6 +56,8 @@ function YubikeySignFlow() {
   switch (step) {
     case DEVICE_STEPS.YUBIKEY_START:
       return <YubikeyStart />
+    case DEVICE_STEPS.YUBIKEY_SIGN_REVIEW:
+      return <YubikeySignReview />
     case DEVICE_STEPS.YUBIKEY_SIGN_LOADING:
     case DEVICE_STEPS.YUBIKEY_HEALTH_LOADING:
       return <YubikeySignLoading />
@@ -61,9 +78,10 @@ export function YubikeyStart() {
   const { signError, isHealthCheck } = useWebWallet()
   const { onForward } = useDeviceNavigation()
 
+  // Transactions are reviewed before the passkey prompt
   const nextStep = isHealthCheck
     ? DEVICE_STEPS.YUBIKEY_HEALTH_LOADING
-    : DEVICE_STEPS.YUBIKEY_SIGN_LOADING
+    : DEVICE_STEPS.YUBIKEY_SIGN_REVIEW
 
   const errorStep = isHealthCheck
     ? DEVICE_STEPS.YUBIKEY_HEALTH_ERROR
@@ -96,10 +114,400 @@ export function YubikeyStart() {
           {translate('choose_different_device')}
         </SecondaryButton>
       }
+    >
+      <>
+        <Spacer unit={8} />
+        <PassphraseInput />
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+// Bitcoin amounts are summarized in BTC, from the satoshi values in the PSBT
+const SATS_PER_BTC = 100000000
+
+function formatBtc(sats: number): string {
+  return `${(sats / SATS_PER_BTC).toFixed(8)} BTC`
+}
+
+/**
+ * Shows a summary of the bitcoin transaction before the passkey prompt, so the user can check
+ * where funds are sent and the fee. Transactions without a summary, e.g. for other coins,
+ * continue straight to signing.
+ */
+function YubikeySignReview() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const {
+    reviewTransaction,
+    transactionSummary,
+    typedDataSummary,
+    safeTransactionSummary,
+    signError,
+  } = useWebWallet()
+
+  const [isReviewed, setIsReviewed] = useState(false)
+
+  useEffect(() => {
+    if (isReviewed === true) {
+      return
+    }
+
+    setIsReviewed(true)
+    reviewTransaction()
+  }, [isReviewed, reviewTransaction])
+
+  useEffect(() => {
+    if (signError != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_SIGN_ERROR)
+      return
+    }
+
+    const hasSummary =
+      transactionSummary != null ||
+      typedDataSummary != null ||
+      safeTransactionSummary != null
+
+    if (isReviewed && !hasSummary) {
+      void onForward(DEVICE_STEPS.YUBIKEY_SIGN_LOADING)
+    }
+  }, [
+    isReviewed,
+    transactionSummary,
+    typedDataSummary,
+    safeTransactionSummary,
+    signError,
+    onForward,
+  ])
+
+  const onContinue = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_SIGN_LOADING)
+  }
+
+  if (typedDataSummary != null) {
+    return (
+      <YubikeyTypedDataReview
+        summary={typedDataSummary}
+        onContinue={onContinue}
+      />
+    )
+  }
+
+  if (safeTransactionSummary != null) {
+    return (
+      <YubikeySafeTransactionReview
+        summary={safeTransactionSummary}
+        onContinue={onContinue}
+      />
+    )
+  }
+
+  if (transactionSummary == null) {
+    return <Fragment />
+  }
+
+  const { outputs, fee, feeRate, isChangeVerified } = transactionSummary
+
+  // Signing is blocked when an output claims to be change but does not pay back to the vault
+  const hasChangeMismatch = outputs.some((output) => output.isChangeMismatch)
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_SIGN_REVIEW}
+      title={translate('yubikey_sign_review_title')}
+      subTitle={translate('yubikey_sign_review_subtitle')}
+      interaction={
+        <dl css={reviewStyle}>
+          {outputs.map((output) => (
+            <Fragment key={output.index}>
+              <dt>
+                {output.address ?? translate('yubikey_sign_review_no_address')}
+                {output.isChange && (
+                  <span css={changeStyle}>
+                    {translate('yubikey_sign_review_change')}
+                  </span>
+                )}
+                {output.isUnverifiedChange && (
+                  <span css={changeStyle}>
+                    {translate('yubikey_sign_review_change_claimed')}
+                  </span>
+                )}
+                {output.isChangeMismatch && (
+                  <span css={changeMismatchStyle}>
+                    {translate('yubikey_sign_review_change_mismatch')}
+                  </span>
+                )}
+              </dt>
+              <dd>{formatBtc(output.value)}</dd>
+            </Fragment>
+          ))}
+          <dt>{translate('yubikey_sign_review_fee')}</dt>
+          <dd>
+            {fee != null
+              ? translate('yubikey_sign_review_fee_value', {
+                  fee: formatBtc(fee),
+                  feeRate,
+                })
+              : translate('yubikey_sign_review_fee_unknown')}
+          </dd>
+        </dl>
+      }
+      additionalInstructions={
+        isChangeVerified
+          ? undefined
+          : translate('yubikey_sign_review_change_unverified')
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue} disabled={hasChangeMismatch}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    >
+      {hasChangeMismatch ? (
+        <>
+          <Spacer unit={12} />
+          <WarningBanner
+            warningLabel={translate('important')}
+            warnings={[
+              translate('yubikey_sign_review_change_mismatch_warning'),
+            ]}
+          />
+        </>
+      ) : undefined}
+    </DeviceConfirmation>
+  )
+}
+
+/**
+ * Shows the decoded EIP-712 typed data before the passkey prompt: the signing domain, and
+ * every field of the message, e.g. the spender and amount of a permit.
+ */
+function YubikeyTypedDataReview({
+  summary,
+  onContinue,
+}: {
+  summary: TypedDataReview
+  onContinue: () => void
+}) {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const { domain, primaryType, fields } = summary
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_SIGN_REVIEW}
+      title={translate('yubikey_sign_review_typed_data_title', { primaryType })}
+      subTitle={translate('yubikey_sign_review_typed_data_subtitle', {
+        name: domain.name ?? '',
+        chainId: domain.chainId?.toString() ?? '',
+      })}
+      interaction={
+        <dl css={reviewStyle}>
+          {domain.verifyingContract != null && (
+            <>
+              <dt>{translate('yubikey_sign_review_verifying_contract')}</dt>
+              <dd>{domain.verifyingContract}</dd>
+            </>
+          )}
+          {fields.map((field) => (
+            <Fragment key={field.path}>
+              <dt>{field.path}</dt>
+              <dd>{field.value}</dd>
+            </Fragment>
+          ))}
+        </dl>
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
     />
   )
 }
 
+// Calls that change who controls the Safe, flagged in the review
+const OWNER_CHANGE_KINDS = [
+  CallKind.ADD_OWNER,
+  CallKind.REMOVE_OWNER,
+  CallKind.SWAP_OWNER,
+  CallKind.CHANGE_THRESHOLD,
+]
+
+/**
+ * Shows the decoded Safe transaction before the passkey prompt, with the SafeTx hash computed
+ * from its fields. Delegate calls run code in the context of the Safe, and are flagged
+ * unless they batch calls with a known MultiSend deployment, as are owner and threshold
+ * changes.
+ */
+function YubikeySafeTransactionReview({
+  summary,
+  onContinue,
+}: {
+  summary: SafeTransactionReview
+  onContinue: () => void
+}) {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const { safeAddress, chainId, transaction, call, hash } = summary
+  const isDelegateCall = transaction.operation === SafeOperation.DELEGATE_CALL
+
+  const calls = flattenCalls(call)
+  const hasDelegateCall = calls.some(
+    (decodedCall) =>
+      decodedCall.isDelegateCall &&
+      !isMultiSendDeployment(decodedCall, chainId),
+  )
+  const hasOwnerChange = calls.some((decodedCall) =>
+    OWNER_CHANGE_KINDS.includes(decodedCall.kind),
+  )
+
+  const warnings = [
+    ...(hasDelegateCall
+      ? [translate('yubikey_sign_review_safe_delegate_warning')]
+      : []),
+    ...(hasOwnerChange
+      ? [translate('yubikey_sign_review_safe_owner_change_warning')]
+      : []),
+  ]
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_SIGN_REVIEW}
+      title={translate('yubikey_sign_review_safe_title')}
+      subTitle={translate('yubikey_sign_review_safe_subtitle', {
+        safeAddress,
+        chainId,
+      })}
+      interaction={
+        <dl css={reviewStyle}>
+          <dt>{translate('yubikey_sign_review_safe_to')}</dt>
+          <dd>{transaction.to}</dd>
+          <dt>{translate('yubikey_sign_review_safe_value')}</dt>
+          <dd>{transaction.value}</dd>
+          <dt>{translate('yubikey_sign_review_safe_data')}</dt>
+          <dd>
+            <YubikeySafeCall call={call} />
+          </dd>
+          <dt>{translate('yubikey_sign_review_safe_operation')}</dt>
+          <dd>
+            {isDelegateCall
+              ? translate('yubikey_sign_review_safe_delegate_call')
+              : translate('yubikey_sign_review_safe_call')}
+          </dd>
+          <dt>{translate('yubikey_sign_review_safe_nonce')}</dt>
+          <dd>{transaction.nonce}</dd>
+          {transaction.gasPrice !== '0' && (
+            <>
+              <dt>{translate('yubikey_sign_review_safe_refund')}</dt>
+              <dd>
+                {translate('yubikey_sign_review_safe_refund_value', {
+                  safeTxGas: transaction.safeTxGas,
+                  baseGas: transaction.baseGas,
+                  gasPrice: transaction.gasPrice,
+                  gasToken: transaction.gasToken,
+                  refundReceiver: transaction.refundReceiver,
+                })}
+              </dd>
+            </>
+          )}
+          <dt>{translate('yubikey_sign_review_safe_hash')}</dt>
+          <dd>{hash}</dd>
+        </dl>
+      }
+      primaryButton={
+        <DefaultButton onClick={onContinue}>
+          {translate('continue')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    >
+      {warnings.length > 0 ? (
+        <>
+          <Spacer unit={12} />
+          <WarningBanner
+            warningLabel={translate('important')}
+            warnings={warnings}
+          />
+        </>
+      ) : undefined}
+    </DeviceConfirmation>
+  )
+}
+
+/**
+ * Describes a call decoded from Safe transaction data: the function and its arguments, and
+ * each batched call of a MultiSend. Unknown functions show the raw data.
+ */
+function YubikeySafeCall({ call }: { call: DecodedCall }) {
+  const { translate } = useTranslate()
+
+  if (call.kind === CallKind.NATIVE_TRANSFER) {
+    return <>{translate('yubikey_sign_review_safe_native_transfer')}</>
+  }
+
+  if (call.method == null) {
+    return <>{call.data}</>
+  }
+
+  return (
+    <>
+      {call.method}
+      <dl css={callStyle}>
+        {/* The packed MultiSend transactions are shown as the batched calls */}
+        {call.calls == null &&
+          call.args.map((arg) => (
+            <Fragment key={arg.name}>
+              <dt>{arg.name}</dt>
+              <dd>{arg.value}</dd>
+            </Fragment>
+          ))}
+        {call.calls?.map((batchedCall, index) => (
+          <Fragment key={index}>
+            <dt>
+              {translate('yubikey_sign_review_safe_batched_call', {
+                index: index + 1,
+                to: batchedCall.to,
+                value: batchedCall.value,
+              })}
+              {batchedCall.isDelegateCall && (
+                <span css={changeMismatchStyle}>
+                  {translate('yubikey_sign_review_safe_delegate_call')}
+                </span>
+              )}
+            </dt>
+            <dd>
+              <YubikeySafeCall call={batchedCall} />
+            </dd>
+          </Fragment>
+        ))}
+      </dl>
+    </>
+  )
+}
+
 /**
  * Shows the loading screen for signing with a Yubikey device while the
  * user submits a passkey authentication response
@@ -240,6 +648,34 @@ function YubikeySignError() {
       return translate('yubikey_error_wrong_yubikey')
     }
 
+    if (signError?.code === PasskeyErrorCodes.CORRUPTED_BLOB) {
+      return translate('yubikey_error_corrupted_blob')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.PASSPHRASE_REQUIRED) {
+      return translate('yubikey_error_passphrase_required')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.INVALID_PASSPHRASE) {
+      return translate('yubikey_error_invalid_passphrase')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.WRONG_DEVICE) {
+      return translate('yubikey_error_psbt_wrong_device')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.INVALID_PSBT) {
+      return translate('yubikey_error_invalid_psbt')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.INVALID_CHANGE) {
+      return translate('yubikey_error_invalid_change')
+    }
+
+    if (signError?.code === PasskeyErrorCodes.HASH_MISMATCH) {
+      return translate('yubikey_error_hash_mismatch')
+    }
+
     if (signError?.code === PasskeyErrorCodes.INVALID_SUBMISSION) {
       /**
        * Invalid submission errors may be caused by a variety of reasons,
@@ -270,6 +706,11 @@ function YubikeySignError() {
           supportLink: LINK.YUBIKEY_TRANSACTION_SUPPORT,
         })
 
+  // Passphrase errors are resolved by re-entering the passphrase before trying again
+  const isPassphraseError =
+    signError?.code === PasskeyErrorCodes.PASSPHRASE_REQUIRED ||
+    signError?.code === PasskeyErrorCodes.INVALID_PASSPHRASE
+
   const tips =
     isHealthCheck === true
       ? [translate('yubikey_error_correct_device')]
@@ -301,6 +742,12 @@ function YubikeySignError() {
       }
     >
       <Fragment>
+        {isPassphraseError && (
+          <>
+            <Spacer unit={8} />
+            <PassphraseInput defaultOpen />
+          </>
+        )}
         <Spacer unit={8} />
         <TroubleshootingFooter tips={tips} supportInfo={supportInfo} />
       </Fragment>
@@ -308,6 +755,46 @@ function YubikeySignError() {
   )
 }
 
+const reviewStyle = css`
+  display: grid;
+  grid-template-columns: 1fr auto;
+  gap: 8px 24px;
+  width: 100%;
+  color: ${COLOR.WHITE};
+  font-size: 14px;
+
+  dt {
+    word-break: break-all;
+  }
+
+  dd {
+    margin: 0;
+    text-align: right;
+    white-space: nowrap;
+  }
+`
+
+const changeStyle = css`
+  margin-left: 8px;
+  color: ${COLOR.TEAL_500};
+`
+
+const changeMismatchStyle = css`
+  margin-left: 8px;
+  color: ${COLOR.YELLOW_500};
+`
+
+// Decoded Safe calls nest in the review, one level for each MultiSend batch
+const callStyle = css`
+  display: grid;
+  grid-template-columns: auto 1fr;
+  gap: 4px 12px;
+  margin: 4px 0 0;
+  text-align: left;
+  white-space: normal;
+  word-break: break-all;
+`
+
 // Context-wrapped component for the Yubikey signing process
 export default function YubikeySign({
   isHealthCheck,
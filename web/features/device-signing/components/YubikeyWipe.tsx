@@ -0,0 +1,238 @@
+import {
+  PasskeyErrorCodes,
+  isEmptyBlobError,
+} from '@casa/device-signing/src/utils/passkeyUtils'
+import { css } from '@emotion/react'
+import { Fragment, useCallback, useEffect, useMemo, useState } from 'react'
+
+import Spacer from 'src/components/Spacer'
+import COLOR from 'src/constants/color'
+import LINK from 'src/constants/link'
+import {
+  DefaultButton,
+  SecondaryButton,
+} from 'src/features/device-signing/components/Buttons'
+import DeviceConfirmation from 'src/features/device-signing/components/DeviceConfirmation'
+import {
+  InstructionsBanner,
+  TroubleshootingFooter,
+  WarningBanner,
+} from 'src/features/device-signing/components/HelpBanners'
+import PasskeyLoading from 'src/features/device-signing/components/PasskeyLoading'
+import * as DEVICE_LINKS from 'src/features/device-signing/constants/link'
+import { DEVICE_STEPS } from 'src/features/device-signing/constants/steps'
+import useDeviceNavigation from 'src/features/device-signing/hooks/useDeviceNavigation'
+import { useWebWallet } from 'src/features/device-signing/hooks/useWebWallet'
+import useTranslate from 'src/hooks/useTranslate'
+import { ReactComponent as AlertCircleThin } from 'src/images/alert-circle-thin-icon.svg'
+import { ReactComponent as CheckmarkCircleThin } from 'src/images/checkmark-circle-thin-icon.svg'
+import { ReactComponent as YubikeyIcon } from 'src/images/yubikey-icon.svg'
+
+/**
+ * Controls display for clearing the seed phrase from a YubiKey that is removed or replaced.
+ * The wipe is confirmed by reading the key back, so a retired key is known to hold no
+ * spendable key material once the success state is shown.
+ */
+export default function YubikeyWipe() {
+  const { step } = useDeviceNavigation()
+
+  switch (step) {
+    case DEVICE_STEPS.YUBIKEY_WIPE_START:
+      return <WipeStart />
+    case DEVICE_STEPS.YUBIKEY_WIPE_LOAD:
+      return <WipeLoading />
+    case DEVICE_STEPS.YUBIKEY_WIPE_SUCCESS:
+      return <WipeSuccess />
+    case DEVICE_STEPS.YUBIKEY_WIPE_ERROR:
+    default:
+      return <WipeError />
+  }
+}
+
+// Asks the user to confirm the wipe, which cannot be undone
+function WipeStart() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { retiredCredentialId } = useWebWallet()
+
+  const onConfirm = () => {
+    void onForward(DEVICE_STEPS.YUBIKEY_WIPE_LOAD)
+  }
+
+  return (
+    <DeviceConfirmation
+      titleIcon={<YubikeyIcon />}
+      key={DEVICE_STEPS.YUBIKEY_WIPE_START}
+      title={translate('yubikey_wipe_start_title')}
+      subTitle={translate(
+        retiredCredentialId != null
+          ? 'yubikey_wipe_start_subtitle_retired'
+          : 'yubikey_wipe_start_subtitle',
+      )}
+      interaction={
+        <InstructionsBanner
+          label={translate('yubikey_reauth_instruction_title')}
+          instructions={[
+            translate('yubikey_wipe_instruction_1'),
+            translate('yubikey_wipe_instruction_2'),
+          ]}
+        />
+      }
+      primaryButton={
+        <DefaultButton onClick={onConfirm}>
+          {translate('yubikey_wipe_confirm')}
+        </DefaultButton>
+      }
+      secondaryButton={
+        <SecondaryButton
+          onClick={() => onForward(DEVICE_STEPS.DEVICE_SELECTION)}
+        >
+          {translate('choose_different_device')}
+        </SecondaryButton>
+      }
+    >
+      <>
+        <Spacer unit={12} />
+        <WarningBanner
+          warningLabel={translate('important')}
+          warnings={[translate('yubikey_wipe_warning')]}
+        />
+      </>
+    </DeviceConfirmation>
+  )
+}
+
+/**
+ * Loading state in charge of showing the browser spinner during the read,
+ * wipe, and verification authentication calls
+ */
+function WipeLoading() {
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+  const { wipeYubikey, wipeError, wipedCredentialId } = useWebWallet()
+
+  const [passkeyPrompted, setPasskeyPrompted] = useState(false)
+
+  useEffect(() => {
+    if (passkeyPrompted === true) {
+      return
+    }
+
+    setPasskeyPrompted(true)
+    // The user confirmed the wipe on the start step
+    void wipeYubikey({ confirmActiveKey: true })
+  }, [passkeyPrompted, wipeYubikey])
+
+  useEffect(() => {
+    const isSuccessful = wipedCredentialId !== null && wipeError == null
+
+    if (isSuccessful === true) {
+      void onForward(DEVICE_STEPS.YUBIKEY_WIPE_SUCCESS)
+      return
+    }
+
+    if (wipeError != null) {
+      void onForward(DEVICE_STEPS.YUBIKEY_WIPE_ERROR)
+      return
+    }
+  }, [wipeError, wipedCredentialId, onForward])
+
+  return (
+    <PasskeyLoading
+      key={DEVICE_STEPS.YUBIKEY_WIPE_LOAD}
+      subTitle={translate('yubikey_wipe_loading_body')}
+      warnings={[
+        translate('yubikey_warning_password_manager'),
+        translate('yubikey_warning_prompt_selection'),
+      ]}
+    />
+  )
+}
+
+// Success state for the wipe process
+function WipeSuccess() {
+  const { translate } = useTranslate()
+
+  return (
+    <DeviceConfirmation
+      titleIcon={
+        <CheckmarkCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.TEAL_500};
+            }
+          `}
+        />
+      }
+      key={DEVICE_STEPS.YUBIKEY_WIPE_SUCCESS}
+      title={translate('yubikey_wipe_success_title')}
+      subTitle={translate('yubikey_wipe_success_subtitle')}
+    />
+  )
+}
+
+// Error handling for the wipe process
+function WipeError() {
+  const { wipeError, resetErrors } = useWebWallet()
+  const { translate } = useTranslate()
+  const { onForward } = useDeviceNavigation()
+
+  const onTryAgain = useCallback(async () => {
+    resetErrors()
+    await onForward(DEVICE_STEPS.YUBIKEY_WIPE_LOAD)
+  }, [onForward, resetErrors])
+
+  const subtitle = useMemo(() => {
+    // Reported as a failed read, a device without a blob has nothing left to wipe
+    if (isEmptyBlobError(wipeError)) {
+      return translate('yubikey_wipe_error_already_wiped')
+    }
+
+    switch (wipeError?.code) {
+      case PasskeyErrorCodes.FAILED_READ:
+        return translate('yubikey_wipe_error_read')
+      case PasskeyErrorCodes.WRONG_DEVICE:
+        return translate('yubikey_error_wrong_yubikey')
+      case PasskeyErrorCodes.FAILED_WRITE:
+        return translate('yubikey_wipe_error_verify')
+      default:
+        return translate('yubikey_error_dismissed')
+    }
+  }, [wipeError, translate])
+
+  return (
+    <DeviceConfirmation
+      key={DEVICE_STEPS.YUBIKEY_WIPE_ERROR}
+      titleIcon={
+        <AlertCircleThin
+          width='54px'
+          height='54px'
+          css={css`
+            path {
+              fill: ${COLOR.YELLOW_500};
+            }
+          `}
+        />
+      }
+      title={translate('yubikey_error_title')}
+      subTitle={subtitle}
+      primaryButton={
+        <DefaultButton onClick={onTryAgain}>
+          {translate('try_again')}
+        </DefaultButton>
+      }
+    >
+      <Fragment>
+        <Spacer unit={8} />
+        <TroubleshootingFooter
+          supportInfo={translate('yubikey_error_footer_setup', {
+            troubleshootingLink: DEVICE_LINKS.TROUBLESHOOT_YUBIKEY_SETUP,
+            supportLink: LINK.YUBIKEY_SETUP_SUPPORT,
+          })}
+        />
+      </Fragment>
+    </DeviceConfirmation>
+  )
+}
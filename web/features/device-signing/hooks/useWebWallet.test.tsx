@@ -0,0 +1,103 @@
+import { getStoredSeed } from '@casa/device-signing/src/passkeyDevice'
+import { PasskeyErrorCodes } from '@casa/device-signing/src/utils/passkeyUtils'
+import { act, renderHook } from '@testing-library/react'
+import { ReactNode } from 'react'
+
+import { WebWalletProvider, useWebWallet } from './useWebWallet'
+
+jest.mock('@casa/device-signing/src/passkeyDevice', () => ({
+  ...jest.requireActual('@casa/device-signing/src/passkeyDevice'),
+  getStoredSeed: jest.fn(),
+}))
+jest.mock('react-router-dom', () => ({
+  useParams: () => ({ deviceId: 'device-id' }),
+}))
+jest.mock('use-query-params', () => ({
+  StringParam: {},
+  useQueryParam: () => ['jwt'],
+}))
+jest.mock('src/hooks/useApi', () => () => ({
+  fetch: jest.fn(async () => ({ data: { token: 'token', options: {} } })),
+}))
+jest.mock('src/hooks/useTranslate', () => () => ({
+  translateToString: (key: string) => key,
+}))
+
+const SEED_PHRASE =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about'
+const PASSPHRASE = 'correct horse battery staple'
+const PHRASE_TTL_MS = 10 * 60 * 1000
+
+const wrapper = ({ children }: { children: ReactNode }) => (
+  <WebWalletProvider>{children}</WebWalletProvider>
+)
+
+// Reads the seed phrase and splits it into shares, as the export does
+async function renderExport() {
+  const rendered = renderHook(() => useWebWallet(), { wrapper })
+
+  act(() => {
+    rendered.result.current.setPassphrase(PASSPHRASE)
+  })
+  await act(async () => {
+    await rendered.result.current.getSeedPhrase()
+  })
+  act(() => {
+    rendered.result.current.splitPhrase({ threshold: 2, shareCount: 3 })
+  })
+
+  const { phrase, shares } = rendered.result.current
+
+  expect(phrase).toEqual(SEED_PHRASE.split(' '))
+  expect(shares).toHaveLength(3)
+
+  return { ...rendered, phrase: phrase!, shares: shares! }
+}
+
+const isCleared = (words: string[]) => words.every((word) => word === '')
+
+describe('WebWalletProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+    jest.mocked(getStoredSeed).mockResolvedValue(SEED_PHRASE)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('reads the seed phrase with the passphrase, without exposing it', async () => {
+    const { result } = await renderExport()
+
+    expect(getStoredSeed).toHaveBeenCalledWith(
+      expect.objectContaining({ passphrase: PASSPHRASE }),
+    )
+    expect(result.current.hasPassphrase).toBe(true)
+    expect(JSON.stringify(result.current)).not.toContain(PASSPHRASE)
+  })
+
+  it('drops the seed phrase and shares once the TTL passes', async () => {
+    const { result, phrase, shares } = await renderExport()
+
+    act(() => {
+      jest.advanceTimersByTime(PHRASE_TTL_MS)
+    })
+
+    expect(result.current.phrase).toBeNull()
+    expect(result.current.shares).toBeNull()
+    expect(result.current.phraseError?.code).toBe(
+      PasskeyErrorCodes.SESSION_EXPIRED,
+    )
+    expect(isCleared(phrase)).toBe(true)
+    expect(shares.every(isCleared)).toBe(true)
+  })
+
+  it('overwrites the seed phrase and shares on unmount', async () => {
+    const { unmount, phrase, shares } = await renderExport()
+
+    unmount()
+
+    expect(isCleared(phrase)).toBe(true)
+    expect(shares.every(isCleared)).toBe(true)
+  })
+})
@@ -1,16 +1,47 @@
 import { efwAsync } from '@casa/common/src/lib/errorFirstWrap'
 import * as passkeyDevice from '@casa/device-signing/src/passkeyDevice'
-import { getStoredSeed } from '@casa/device-signing/src/passkeyDevice'
+import {
+  BatchSignKind,
+  BatchSignRequest,
+  PasskeyBlobVersion,
+  getStoredSeed,
+} from '@casa/device-signing/src/passkeyDevice'
 import { PASSKEY_DEVICES } from '@casa/device-signing/src/types/deviceTypes'
 import { ToSign } from '@casa/device-signing/src/types/toSign'
+import {
+  AccountXpubRequest,
+  PasskeyAccountXpub,
+} from '@casa/device-signing/src/utils/descriptorUtils'
+import { getEthChainId } from '@casa/device-signing/src/utils/ethChains'
+import { SignedEthTransaction } from '@casa/device-signing/src/utils/ethTransaction'
+import {
+  BitcoinNetwork,
+  getBitcoinjsNetwork,
+  resolveBitcoinNetwork,
+} from '@casa/device-signing/src/utils/networkUtils'
 import * as passkeyUtils from '@casa/device-signing/src/utils/passkeyUtils'
 import {
   PasskeyError,
   PasskeyErrorCodes,
 } from '@casa/device-signing/src/utils/passkeyUtils'
+import {
+  PsbtSummary,
+  describePsbt,
+} from '@casa/device-signing/src/utils/psbtReview'
+import {
+  SafeTransactionReview,
+  describeSafeTransaction,
+} from '@casa/device-signing/src/utils/safeTransaction'
+import { splitSeedPhrase } from '@casa/device-signing/src/utils/shamirUtils'
+import {
+  TypedDataPayload,
+  TypedDataReview,
+  describeTypedData,
+} from '@casa/device-signing/src/utils/typedData'
 import {
   PublicKeyCredentialCreationOptionsJSON,
   PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
 } from '@simplewebauthn/types'
 import {
   useState,
@@ -19,6 +50,8 @@ import {
   ReactNode,
   useContext,
   useCallback,
+  useEffect,
+  useRef,
 } from 'react'
 import toast from 'react-hot-toast'
 import { useParams } from 'react-router-dom'
@@ -50,6 +83,9 @@ const DEFAULT_WEB_WALLET_NAME = 'YubiKey'
  */
 const PASSKEY_PURPOSE = 'sign'
 
+// How long a seed phrase read for export is held, long enough to write it down and verify it
+const PHRASE_TTL_MS = 10 * 60 * 1000
+
 /**
  * The inputs required to sign a transaction with a web wallet, analogous to inputs to
  * `DeviceSigning.tsx`, but separated here to handle the complex web wallet process.
@@ -60,37 +96,102 @@ export interface TransactionInputs {
   signature: Signature
   walletAccount: WalletAccount | null
   isTestnet: boolean
+  network?: BitcoinNetwork // signet and regtest, otherwise derived from `isTestnet`
+  typedData?: TypedDataPayload // ETH only, EIP-712 typed data signed in place of `toSign`
+}
+
+// The outcome of each signature of a batch, with the signed data once submitted
+export interface BatchSignatureResult {
+  signatureId: string
+  signedData?: string
+  error?: PasskeyError
+}
+
+// A backup passkey to receive the same seed phrase as the primary passkey during setup
+type BackupWriteTarget = {
+  authenticationOptions: PublicKeyCredentialRequestOptionsJSON
+  credentialId: string
+  prfSalt?: string
 }
 
 type WebWalletState = {
-  createPasskey: () => Promise<void>
+  createPasskey: (params?: { isBackup?: boolean }) => Promise<void>
   createWallet: () => Promise<void>
   signHealthCheck: () => Promise<void>
   signTransaction: () => Promise<void>
+  reviewTransaction: () => void
   getSeedPhrase: () => Promise<void>
+  exportAccountXpubs: (accounts: AccountXpubRequest[]) => Promise<void>
+  signBatch: (batch: TransactionInputs[]) => Promise<void>
+  migrateBlob: () => Promise<void>
+  replaceYubikey: () => Promise<void>
+  wipeYubikey: (params?: { confirmActiveKey?: boolean }) => Promise<void>
   onConfirmPhrase: () => void
+  splitPhrase: (params: { threshold: number; shareCount: number }) => void
+  onConfirmShare: () => void
+  setPassphrase: (passphrase: string | null) => void
+  setImportPhrase: (seedPhrase: string | null) => void
   resetErrors: () => void
   passkeyError: PasskeyError | null
   walletError: PasskeyError | null
   signError: PasskeyError | null
   phraseError: PasskeyError | null
+  migrationError: PasskeyError | null
+  replacementError: PasskeyError | null
+  wipeError: PasskeyError | null
+  accountsError: PasskeyError | null
+  batchError: PasskeyError | null
   passkeyLoading: boolean
   walletLoading: boolean
   deviceUpdateLoading: boolean
   signatureLoading: boolean
   phraseLoading: boolean
+  migrationLoading: boolean
+  replacementLoading: boolean
+  wipeLoading: boolean
+  accountsLoading: boolean
+  batchLoading: boolean
   phraseConfirmed: boolean
+  hasPassphrase: boolean
   signature?: Signature
   credentialId: string | null
+  backupCredentialId: string | null
   xPub: string | null
   phrase: string[] | null
+  shares: string[][] | null
+  verifiedShareCount: number
   signatureResult: string | null
+  transactionSummary: PsbtSummary | null
+  typedDataSummary: TypedDataReview | null
+  safeTransactionSummary: SafeTransactionReview | null
+  migratedBlobVersion: PasskeyBlobVersion | null
+  replacedCredentialId: string | null
+  retiredCredentialId: string | null
+  wipedCredentialId: string | null
+  accountXpubs: PasskeyAccountXpub[] | null
+  batchResults: BatchSignatureResult[] | null
   isHealthCheck: boolean
   isTransaction: boolean
+  isImport: boolean
+  withBackupKey: boolean
+  hasImportPhrase: boolean
 }
 
 const WebWalletContext = createContext<WebWalletState>({} as WebWalletState)
 
+// Signatures as submitted to the server, direct ETH transactions as the raw transaction
+function getExternalSignatures(
+  signatures: string | string[] | SignedEthTransaction,
+): string[] {
+  if (Array.isArray(signatures)) {
+    return signatures
+  }
+
+  return [
+    typeof signatures === 'string' ? signatures : signatures.rawTransaction,
+  ]
+}
+
 /**
  * A React context provider that manages the state and logic for the web wallet process. This
  * is divergent from other hardware wallets due to the additional server-based options calls
@@ -100,6 +201,10 @@ const WebWalletContext = createContext<WebWalletState>({} as WebWalletState)
  * @param signature The signature object to be used for the web wallet process, if applicable
  * @param isHealthCheck A boolean indicating whether the wrapped component is used in a health check
  * @param isTransaction A boolean indicating whether the wrapped component is used in a transaction
+ * @param isImport A boolean indicating whether the setup writes a user-supplied seed phrase
+ * instead of generating one
+ * @param withBackupKey A boolean indicating whether the setup registers a second passkey on a
+ * backup YubiKey and writes the same seed phrase to it
  */
 export function WebWalletProvider({
   device,
@@ -107,12 +212,16 @@ export function WebWalletProvider({
   transactionInputs,
   isHealthCheck,
   isTransaction,
+  isImport,
+  withBackupKey,
   children,
 }: {
   device?: Device
   signature?: Signature
   isHealthCheck?: boolean
   isTransaction?: boolean
+  isImport?: boolean
+  withBackupKey?: boolean
   transactionInputs?: TransactionInputs
   children: ReactNode
 }): ReactElement {
@@ -122,20 +231,140 @@ export function WebWalletProvider({
   const [deviceUpdateLoading, setDeviceUpdateLoading] = useState(false)
   const [signatureLoading, setSignatureLoading] = useState(false)
   const [phraseLoading, setPhraseLoading] = useState(false)
+  const [migrationLoading, setMigrationLoading] = useState(false)
+  const [replacementLoading, setReplacementLoading] = useState(false)
+  const [wipeLoading, setWipeLoading] = useState(false)
+  const [accountsLoading, setAccountsLoading] = useState(false)
+  const [batchLoading, setBatchLoading] = useState(false)
 
   // Error states for each step of the web wallet process
   const [passkeyError, setPasskeyError] = useState<PasskeyError | null>(null)
   const [walletError, setWalletError] = useState<PasskeyError | null>(null)
   const [signError, setSignError] = useState<PasskeyError | null>(null)
   const [phraseError, setPhraseError] = useState<PasskeyError | null>(null)
+  const [migrationError, setMigrationError] = useState<PasskeyError | null>(
+    null,
+  )
+  const [replacementError, setReplacementError] = useState<PasskeyError | null>(
+    null,
+  )
+  const [wipeError, setWipeError] = useState<PasskeyError | null>(null)
+  const [accountsError, setAccountsError] = useState<PasskeyError | null>(null)
+  const [batchError, setBatchError] = useState<PasskeyError | null>(null)
 
   // Success states for each step of the web wallet process
   const [credentialId, setCredentialId] = useState<string | null>(null)
+  const [backupCredentialId, setBackupCredentialId] = useState<string | null>(
+    null,
+  )
   const [xPub, setXPub] = useState<string | null>(null)
   const [backupToken, setBackupToken] = useState<string | undefined>()
   const [signatureResult, setSignatureResult] = useState<string | null>(null)
+  const [transactionSummary, setTransactionSummary] =
+    useState<PsbtSummary | null>(null)
+  const [typedDataSummary, setTypedDataSummary] =
+    useState<TypedDataReview | null>(null)
+  const [safeTransactionSummary, setSafeTransactionSummary] =
+    useState<SafeTransactionReview | null>(null)
   const [phrase, setPhrase] = useState<string[] | null>(null)
   const [phraseConfirmed, setPhraseConfirmed] = useState<boolean>(false)
+  const [shares, setShares] = useState<string[][] | null>(null)
+  const [verifiedShareCount, setVerifiedShareCount] = useState<number>(0)
+  const [migratedBlobVersion, setMigratedBlobVersion] =
+    useState<PasskeyBlobVersion | null>(null)
+  const [replacedCredentialId, setReplacedCredentialId] = useState<
+    string | null
+  >(null)
+  const [retiredCredentialId, setRetiredCredentialId] = useState<string | null>(
+    null,
+  )
+  const [wipedCredentialId, setWipedCredentialId] = useState<string | null>(
+    null,
+  )
+  const [accountXpubs, setAccountXpubs] = useState<PasskeyAccountXpub[] | null>(
+    null,
+  )
+  const [batchResults, setBatchResults] = useState<
+    BatchSignatureResult[] | null
+  >(null)
+
+  /**
+   * The optional BIP39 passphrase is held in a ref rather than state, so it is never part of
+   * the rendered context value. It is never sent to the server or written to the device.
+   */
+  const passphraseRef = useRef<string | null>(null)
+  const [hasPassphrase, setHasPassphrase] = useState<boolean>(false)
+
+  // Bitcoin network for xpub exports and transaction review, mainnet unless set otherwise
+  const network = resolveBitcoinNetwork({
+    network: transactionInputs?.network ?? device?.network,
+    isTestnet: transactionInputs?.isTestnet,
+  })
+
+  const setPassphrase = useCallback((passphrase: string | null) => {
+    passphraseRef.current = passphrase === '' ? null : passphrase
+    setHasPassphrase(passphraseRef.current != null)
+  }, [])
+
+  // A seed phrase entered for import is held the same way as the passphrase
+  const importPhraseRef = useRef<string | null>(null)
+  const [hasImportPhrase, setHasImportPhrase] = useState<boolean>(false)
+
+  const setImportPhrase = useCallback((seedPhrase: string | null) => {
+    importPhraseRef.current = seedPhrase
+    setHasImportPhrase(seedPhrase != null)
+  }, [])
+
+  // Drop the passphrase and imported seed phrase once the web wallet process is left
+  useEffect(() => {
+    return () => {
+      passphraseRef.current = null
+      importPhraseRef.current = null
+    }
+  }, [])
+
+  /**
+   * A seed phrase read for export, and its shares, are dropped once the TTL passes rather
+   * than held for the life of the provider. The export fails with an expired session, and
+   * is started again from the passkey prompt.
+   */
+  useEffect(() => {
+    if (phrase == null) {
+      return undefined
+    }
+
+    const timeout = window.setTimeout(() => {
+      setPhrase(null)
+      setShares(null)
+      setPhraseError(
+        new PasskeyError(
+          'Seed phrase expired before the export was completed',
+          PasskeyErrorCodes.SESSION_EXPIRED,
+        ),
+      )
+    }, PHRASE_TTL_MS)
+
+    return () => {
+      window.clearTimeout(timeout)
+    }
+  }, [phrase])
+
+  /**
+   * The words of a seed phrase, and of its shares, are overwritten once they leave state, on
+   * expiry, on a new read and when the web wallet process is left, so a copy held by a
+   * component does not outlive the provider.
+   */
+  useEffect(() => {
+    return () => {
+      phrase?.fill('')
+    }
+  }, [phrase])
+
+  useEffect(() => {
+    return () => {
+      shares?.forEach((share) => share.fill(''))
+    }
+  }, [shares])
 
   // Url parameters for the web wallet setup process
   const [jwt] = useQueryParam('jwt', StringParam)
@@ -151,6 +380,11 @@ export function WebWalletProvider({
     setWalletError(null)
     setSignError(null)
     setPhraseError(null)
+    setMigrationError(null)
+    setReplacementError(null)
+    setWipeError(null)
+    setAccountsError(null)
+    setBatchError(null)
   }
 
   /**
@@ -177,20 +411,25 @@ export function WebWalletProvider({
     path: 'passkeys',
   })
 
-  // Retrieves authentication options for writing to the passkey
+  /**
+   * Retrieves authentication options for writing to the passkey. A PRF salt is included
+   * for credentials that support the PRF extension, used to encrypt the stored seed phrase
+   */
   const { fetch: getAuthOptions } = useApi<{
     token: string
     options: PublicKeyCredentialRequestOptionsJSON
+    prfSalt?: string
   }>({
     serviceName: 'vault',
     method: 'POST',
     path: 'passkeys/getAuthOptions',
   })
 
-  // Retrieves signing options for reading the passkey for signing
+  // Retrieves signing options for reading the passkey for signing, with the PRF salt if any
   const { fetch: getSignOptions } = useApi<{
     token: string
     options: PublicKeyCredentialRequestOptionsJSON
+    prfSalt?: string
   }>({
     serviceName: 'vault',
     method: 'POST',
@@ -218,94 +457,104 @@ export function WebWalletProvider({
     path: 'walletAccounts/{walletAccountId}',
   })
 
-  // Creates a new non-syncing, largeBlob supported passkey credential
-  const createPasskey = useCallback(async () => {
-    if (jwt == null) {
-      setPasskeyError(
-        new PasskeyError('missing JWT', PasskeyErrorCodes.UNABLE_TO_CONNECT),
+  /**
+   * Creates a new non-syncing, largeBlob supported passkey credential. With `isBackup`, the
+   * credential is kept as the backup credential, to be written alongside the primary one.
+   */
+  const createPasskey = useCallback(
+    async ({ isBackup }: { isBackup?: boolean } = {}) => {
+      if (jwt == null) {
+        setPasskeyError(
+          new PasskeyError('missing JWT', PasskeyErrorCodes.UNABLE_TO_CONNECT),
+        )
+        return
+      }
+
+      setPasskeyError(null)
+      setPasskeyLoading(true)
+
+      /**
+       * Retrieves attestation options so clients can enforce unique
+       *  non-synchronizing passkeys for each device group
+       */
+      const [attestationOptsError, attestationOptsResult] = await efwAsync(
+        getCreateOptions({
+          token: jwt,
+          query: { purpose: PASSKEY_PURPOSE, deviceId: deviceId },
+        }),
       )
-      return
-    }
-
-    setPasskeyError(null)
-    setPasskeyLoading(true)
-
-    /**
-     * Retrieves attestation options so clients can enforce unique
-     *  non-synchronizing passkeys for each device group
-     */
-    const [attestationOptsError, attestationOptsResult] = await efwAsync(
-      getCreateOptions({
-        token: jwt,
-        query: { purpose: PASSKEY_PURPOSE, deviceId: deviceId },
-      }),
-    )
 
-    // Handle remote errors
-    if (attestationOptsError != null || attestationOptsResult.data == null) {
-      const error = parsePasskeyError({
-        message: 'Failed attestation options request',
-        apiResult: attestationOptsResult,
-        error: attestationOptsError,
-      })
-
-      setPasskeyError(error)
-      setPasskeyLoading(false)
-      return
-    }
+      // Handle remote errors
+      if (attestationOptsError != null || attestationOptsResult.data == null) {
+        const error = parsePasskeyError({
+          message: 'Failed attestation options request',
+          apiResult: attestationOptsResult,
+          error: attestationOptsError,
+        })
 
-    // Extract the token and options from the response
-    const { token, options } = attestationOptsResult.data
+        setPasskeyError(error)
+        setPasskeyLoading(false)
+        return
+      }
 
-    const [registrationError, registrationResponse] = await efwAsync(
-      passkeyUtils.createRawCredential(options),
-    )
+      // Extract the token and options from the response
+      const { token, options } = attestationOptsResult.data
 
-    // Handles errors from the browser prompt for passkey registration
-    if (registrationError != null) {
-      const error = parsePasskeyError({
-        message: 'Failed to create passkey from browser prompt',
-        error: registrationError,
-      })
-
-      setPasskeyError(error)
-      setPasskeyLoading(false)
-      return
-    }
-
-    // Add the credential to the users account
-    const [addPasskeyError, addPasskeyResult] = await efwAsync(
-      addPasskey({
-        body: {
-          options: token,
-          attestation: registrationResponse as AnyObject,
-          name: DEFAULT_WEB_WALLET_NAME,
-          purpose: PASSKEY_PURPOSE,
-        },
-        token: jwt,
-      }),
-    )
+      const [registrationError, registrationResponse] = await efwAsync(
+        passkeyUtils.createRawCredential(options),
+      )
 
-    // Handle errors from adding the passkey to the database
-    if (
-      addPasskeyError != null ||
-      addPasskeyResult.data?.credentialId == null
-    ) {
-      const error = parsePasskeyError({
-        message: 'Creation successful, unable to add to database',
-        apiResult: addPasskeyResult,
-        error: addPasskeyError,
-      })
+      // Handles errors from the browser prompt for passkey registration
+      if (registrationError != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to create passkey from browser prompt',
+          error: registrationError,
+        })
+
+        setPasskeyError(error)
+        setPasskeyLoading(false)
+        return
+      }
+
+      // Add the credential to the users account
+      const [addPasskeyError, addPasskeyResult] = await efwAsync(
+        addPasskey({
+          body: {
+            options: token,
+            attestation: registrationResponse as AnyObject,
+            name: DEFAULT_WEB_WALLET_NAME,
+            purpose: PASSKEY_PURPOSE,
+          },
+          token: jwt,
+        }),
+      )
 
-      setPasskeyError(error)
+      // Handle errors from adding the passkey to the database
+      if (
+        addPasskeyError != null ||
+        addPasskeyResult.data?.credentialId == null
+      ) {
+        const error = parsePasskeyError({
+          message: 'Creation successful, unable to add to database',
+          apiResult: addPasskeyResult,
+          error: addPasskeyError,
+        })
+
+        setPasskeyError(error)
+        setPasskeyLoading(false)
+        return
+      }
+
+      // Set the credentialId for the next step in the process
+      if (isBackup === true) {
+        setBackupCredentialId(addPasskeyResult.data.credentialId)
+      } else {
+        setCredentialId(addPasskeyResult.data.credentialId)
+      }
       setPasskeyLoading(false)
-      return
-    }
-
-    // Set the credentialId for the next step in the process
-    setCredentialId(addPasskeyResult.data.credentialId)
-    setPasskeyLoading(false)
-  }, [jwt, addPasskey, getCreateOptions, deviceId])
+    },
+    [jwt, addPasskey, getCreateOptions, deviceId],
+  )
 
   const getSeedPhrase = useCallback(async () => {
     if (jwt == null || (credentialId == null && deviceId == null)) {
@@ -345,6 +594,8 @@ export function WebWalletProvider({
     const [readError, readSeed] = await efwAsync(
       getStoredSeed({
         authenticationOptions: signOptionsResult.data.options,
+        prfSalt: signOptionsResult.data.prfSalt,
+        passphrase: passphraseRef.current ?? undefined,
       }),
     )
 
@@ -363,10 +614,81 @@ export function WebWalletProvider({
     setPhrase(splitPhrase)
   }, [jwt, credentialId, deviceId, device, backupToken, getSignOptions])
 
+  /**
+   * Exports the xpubs of several accounts, e.g. BTC script types and ETH, from a single
+   * read of the passkey. Nothing is written, so the sign options suffice, and the xpubs are
+   * held in context for the caller to provision the accounts.
+   */
+  const exportAccountXpubs = useCallback(
+    async (accounts: AccountXpubRequest[]) => {
+      if (jwt == null || deviceId == null) {
+        setAccountsError(
+          new PasskeyError('missing JWT', PasskeyErrorCodes.UNAUTHORIZED),
+        )
+
+        return
+      }
+
+      setAccountsLoading(true)
+      setAccountsError(null)
+      setAccountXpubs(null)
+
+      // Get the authentication options for reading the blob
+      const [signOptionsError, signOptionsResult] = await efwAsync(
+        getSignOptions({
+          query: {
+            deviceId: device?.id ?? deviceId,
+          },
+          token: jwt,
+        }),
+      )
+
+      // Handle errors from the server
+      if (signOptionsError != null || signOptionsResult.error != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to get auth options to read blob',
+          apiResult: signOptionsResult,
+          error: signOptionsError,
+        })
+
+        setAccountsError(error)
+        setAccountsLoading(false)
+        return
+      }
+
+      const [exportError, exported] = await efwAsync(
+        passkeyDevice.exportXpubs({
+          authenticationOptions: signOptionsResult.data.options,
+          accounts,
+          prfSalt: signOptionsResult.data.prfSalt,
+          passphrase: passphraseRef.current ?? undefined,
+          network,
+        }),
+      )
+
+      // Handle errors from the passkey prompt
+      if (exportError != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to export account xpubs from passkey',
+          error: exportError,
+        })
+
+        setAccountsError(error)
+        setAccountsLoading(false)
+        return
+      }
+
+      setAccountXpubs(exported)
+      setAccountsLoading(false)
+    },
+    [jwt, deviceId, device, network, getSignOptions],
+  )
+
   /**
    * Writes the xpub to the wallet and links it to the passkey,
    * must be called once a credentialId is available from the passkey creation
-   * process.
+   * process. With a backup key, the same seed phrase is written to the backup
+   * passkey and both credentials are linked to the device.
    */
   const createWallet = useCallback(async () => {
     if (jwt == null || credentialId == null || device == null) {
@@ -379,6 +701,16 @@ export function WebWalletProvider({
       return
     }
 
+    if (withBackupKey === true && backupCredentialId == null) {
+      setWalletError(
+        new PasskeyError(
+          'Attempted to create wallet before the backup passkey was created',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      return
+    }
+
     setWalletError(null)
     setWalletLoading(true)
 
@@ -407,15 +739,85 @@ export function WebWalletProvider({
       return
     }
 
-    const { token, options } = authOptionsResult.data
+    const { token, options, prfSalt } = authOptionsResult.data
+
+    // Holds the backup credential to write, and the token required by the device update
+    let backup: BackupWriteTarget | undefined
+    let backupWriteToken: string | undefined
+
+    // Get auth options to WRITE to the backup passkey largeBlob
+    if (backupCredentialId != null) {
+      const [backupAuthOptionsError, backupAuthOptionsResult] = await efwAsync(
+        getAuthOptions({
+          body: {
+            credentialId: backupCredentialId,
+          },
+          query: {
+            purpose: PASSKEY_PURPOSE,
+          },
+        }),
+      )
 
-    // Export the xpub from the passkey
+      // Handle errors from the server
+      if (
+        backupAuthOptionsError != null ||
+        backupAuthOptionsResult.data == null
+      ) {
+        const error = parsePasskeyError({
+          message: 'Failed to get auth options to write backup blob',
+          apiResult: backupAuthOptionsResult,
+          error: backupAuthOptionsError,
+        })
+
+        setWalletError(error)
+        setWalletLoading(false)
+        return
+      }
+
+      backup = {
+        authenticationOptions: backupAuthOptionsResult.data.options,
+        credentialId: backupCredentialId,
+        prfSalt: backupAuthOptionsResult.data.prfSalt,
+      }
+      backupWriteToken = backupAuthOptionsResult.data.token
+    }
+
+    if (isImport === true && importPhraseRef.current == null) {
+      setWalletError(
+        new PasskeyError(
+          'Attempted to import a wallet before a seed phrase was entered',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      setWalletLoading(false)
+      return
+    }
+
+    // Write the imported seed phrase, or a newly generated one, and export the xpub
     const [xPubError, xPubExport] = await efwAsync(
-      passkeyDevice.exportXpub({
-        hardenedKeyPathPurpose: device.hardenedKeyPathPurpose,
-        authenticationOptions: options,
-        credentialId,
-      }),
+      isImport === true && importPhraseRef.current != null
+        ? passkeyDevice.importSeedPhrase({
+            seedPhrase: importPhraseRef.current,
+            hardenedKeyPathPurpose: device.hardenedKeyPathPurpose,
+            network,
+            coin: device.coin,
+            authenticationOptions: options,
+            credentialId,
+            prfSalt,
+            passphrase: passphraseRef.current ?? undefined,
+            backup,
+          })
+        : passkeyDevice.exportXpub({
+            hardenedKeyPathPurpose: device.hardenedKeyPathPurpose,
+            network,
+            coin: device.coin,
+            mnemonicStrength: device.mnemonicStrength ?? undefined,
+            authenticationOptions: options,
+            credentialId,
+            prfSalt,
+            passphrase: passphraseRef.current ?? undefined,
+            backup,
+          }),
     )
 
     // Handle errors from the passkey prompt
@@ -440,12 +842,26 @@ export function WebWalletProvider({
         },
         body: {
           xpub: xPubExport.xpub,
+          masterFingerprint: xPubExport.accountXpub.masterFingerprint,
+          // The key origin describes the account xpub, not the purpose level `xpub`
+          accountXpub: xPubExport.accountXpub.xpub,
+          derivationPath: xPubExport.accountXpub.derivationPath,
+          descriptorKey: xPubExport.accountXpub.descriptorKey,
           token,
           authenticationResponse:
             xPubExport.authenticationResponse as AnyObject,
           deviceType: DEVICE_TYPE.YUBIKEY,
           blobVersion: xPubExport.blobVersion,
           hardenedKeyPathPurpose: device.hardenedKeyPathPurpose,
+          backupCredential:
+            xPubExport.backup != null
+              ? {
+                  credentialId: xPubExport.backup.credentialId,
+                  token: backupWriteToken,
+                  authenticationResponse: xPubExport.backup
+                    .authenticationResponse as AnyObject,
+                }
+              : undefined,
         },
         token: jwt,
       }),
@@ -466,11 +882,459 @@ export function WebWalletProvider({
       return
     }
 
+    // The imported seed phrase is no longer needed once it is on the device
+    importPhraseRef.current = null
+
     setXPub(xPubExport.xpub)
     setBackupToken(addWalletResult.data?.backupToken)
     setWalletLoading(false)
     return
-  }, [credentialId, jwt, deviceId, addWallet, getAuthOptions, device])
+  }, [
+    credentialId,
+    backupCredentialId,
+    jwt,
+    deviceId,
+    addWallet,
+    getAuthOptions,
+    device,
+    network,
+    isImport,
+    withBackupKey,
+  ])
+
+  /**
+   * Re-encodes the seed phrase on an existing device with the current blob version, then
+   * reports the new blob version to the server. Reads and writes are separate prompts.
+   */
+  const migrateBlob = useCallback(async () => {
+    if (jwt == null || deviceId == null) {
+      setMigrationError(
+        new PasskeyError(
+          'Attempted to migrate blob before JWT and deviceId are available',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      return
+    }
+
+    setMigrationError(null)
+    setMigrationLoading(true)
+
+    // Get the authentication options to READ the existing blob
+    const [signOptionsError, signOptionsResult] = await efwAsync(
+      getSignOptions({
+        query: {
+          deviceId: device?.id ?? deviceId,
+        },
+        token: jwt,
+      }),
+    )
+
+    // Handle errors from the server
+    if (signOptionsError != null || signOptionsResult.data == null) {
+      const error = parsePasskeyError({
+        message: 'Failed to get auth options to read blob for migration',
+        apiResult: signOptionsResult,
+        error: signOptionsError,
+      })
+
+      setMigrationError(error)
+      setMigrationLoading(false)
+      return
+    }
+
+    // Holds the token from the write options, required by the device update
+    let writeToken: string | null = null
+
+    // Get the authentication options to WRITE once the read identifies the credential
+    const getWriteOptions = async (credentialId: string) => {
+      const authOptionsResult = await getAuthOptions({
+        body: {
+          credentialId,
+        },
+        query: {
+          purpose: PASSKEY_PURPOSE,
+        },
+        token: jwt,
+      })
+
+      if (authOptionsResult.data == null) {
+        throw parsePasskeyError({
+          message: 'Failed to get auth options to write blob for migration',
+          apiResult: authOptionsResult,
+        })
+      }
+
+      writeToken = authOptionsResult.data.token
+      return authOptionsResult.data.options
+    }
+
+    const [migrationPromptError, migration] = await efwAsync(
+      passkeyDevice.migrateBlob({
+        authenticationOptions: signOptionsResult.data.options,
+        getWriteOptions,
+        hardenedKeyPathPurpose: device?.hardenedKeyPathPurpose,
+        network,
+        coin: device?.coin,
+        prfSalt: signOptionsResult.data.prfSalt,
+        passphrase: passphraseRef.current ?? undefined,
+      }),
+    )
+
+    // Handle errors from the passkey prompts
+    if (migrationPromptError != null) {
+      const error = parsePasskeyError({
+        message: 'Failed to migrate blob on passkey',
+        error: migrationPromptError,
+      })
+
+      setMigrationError(error)
+      setMigrationLoading(false)
+      return
+    }
+
+    // Report the new blob version on the device
+    const [updateDeviceError, updateDeviceResult] = await efwAsync(
+      addWallet({
+        pathData: {
+          deviceId,
+        },
+        body: {
+          xpub: migration.xpub,
+          token: writeToken,
+          authenticationResponse: migration.authenticationResponse as AnyObject,
+          deviceType: DEVICE_TYPE.YUBIKEY,
+          blobVersion: migration.blobVersion,
+          hardenedKeyPathPurpose: device?.hardenedKeyPathPurpose,
+        },
+        token: jwt,
+      }),
+    )
+
+    // Handle errors from the server
+    if (updateDeviceError != null || updateDeviceResult.error != null) {
+      const error = parsePasskeyError({
+        message:
+          'Blob migrated on passkey, but API call failed to update device',
+        error: updateDeviceError,
+        apiResult: updateDeviceResult,
+      })
+
+      setMigrationError(error)
+      setMigrationLoading(false)
+      return
+    }
+
+    setMigratedBlobVersion(migration.blobVersion)
+    setMigrationLoading(false)
+  }, [
+    jwt,
+    deviceId,
+    device,
+    network,
+    getSignOptions,
+    getAuthOptions,
+    addWallet,
+  ])
+
+  /**
+   * Clones the seed phrase from the device's current passkey to a new passkey on a replacement
+   * YubiKey, then rebinds the device record to the new credential. The wallet is unchanged.
+   */
+  const replaceYubikey = useCallback(async () => {
+    if (jwt == null || deviceId == null) {
+      setReplacementError(
+        new PasskeyError(
+          'Attempted to replace YubiKey before JWT and deviceId are available',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      return
+    }
+
+    setReplacementError(null)
+    setReplacementLoading(true)
+
+    // Get the authentication options to READ the existing blob
+    const [signOptionsError, signOptionsResult] = await efwAsync(
+      getSignOptions({
+        query: {
+          deviceId: device?.id ?? deviceId,
+        },
+        token: jwt,
+      }),
+    )
+
+    // Handle errors from the server
+    if (signOptionsError != null || signOptionsResult.data == null) {
+      const error = parsePasskeyError({
+        message: 'Failed to get auth options to read blob for replacement',
+        apiResult: signOptionsResult,
+        error: signOptionsError,
+      })
+
+      setReplacementError(error)
+      setReplacementLoading(false)
+      return
+    }
+
+    // Get attestation options for the replacement passkey
+    const [attestationOptsError, attestationOptsResult] = await efwAsync(
+      getCreateOptions({
+        token: jwt,
+        query: { purpose: PASSKEY_PURPOSE, deviceId: deviceId },
+      }),
+    )
+
+    // Handle errors from the server
+    if (attestationOptsError != null || attestationOptsResult.data == null) {
+      const error = parsePasskeyError({
+        message: 'Failed attestation options request for replacement',
+        apiResult: attestationOptsResult,
+        error: attestationOptsError,
+      })
+
+      setReplacementError(error)
+      setReplacementLoading(false)
+      return
+    }
+
+    // Holds the token from the write options, required by the device update
+    let writeToken: string | null = null
+
+    // Stores the replacement passkey, then gets the options to WRITE to it
+    const onCredentialCreated = async (
+      registrationResponse: RegistrationResponseJSON,
+    ) => {
+      const addPasskeyResult = await addPasskey({
+        body: {
+          options: attestationOptsResult.data.token,
+          attestation: registrationResponse as AnyObject,
+          name: DEFAULT_WEB_WALLET_NAME,
+          purpose: PASSKEY_PURPOSE,
+        },
+        token: jwt,
+      })
+
+      const newCredentialId = addPasskeyResult.data?.credentialId
+
+      if (newCredentialId == null) {
+        throw parsePasskeyError({
+          message: 'Replacement created, unable to add to database',
+          apiResult: addPasskeyResult,
+        })
+      }
+
+      const authOptionsResult = await getAuthOptions({
+        body: {
+          credentialId: newCredentialId,
+        },
+        query: {
+          purpose: PASSKEY_PURPOSE,
+        },
+        token: jwt,
+      })
+
+      if (authOptionsResult.data == null) {
+        throw parsePasskeyError({
+          message: 'Failed to get auth options to write replacement blob',
+          apiResult: authOptionsResult,
+        })
+      }
+
+      writeToken = authOptionsResult.data.token
+
+      return {
+        credentialId: newCredentialId,
+        authenticationOptions: authOptionsResult.data.options,
+        prfSalt: authOptionsResult.data.prfSalt,
+      }
+    }
+
+    const [replacementPromptError, replacement] = await efwAsync(
+      passkeyDevice.replaceDevice({
+        authenticationOptions: signOptionsResult.data.options,
+        creationOptions: attestationOptsResult.data.options,
+        onCredentialCreated,
+        hardenedKeyPathPurpose: device?.hardenedKeyPathPurpose,
+        network,
+        coin: device?.coin,
+        prfSalt: signOptionsResult.data.prfSalt,
+        passphrase: passphraseRef.current ?? undefined,
+      }),
+    )
+
+    // Handle errors from the passkey prompts
+    if (replacementPromptError != null) {
+      const error = parsePasskeyError({
+        message: 'Failed to clone seed phrase to replacement passkey',
+        error: replacementPromptError,
+      })
+
+      setReplacementError(error)
+      setReplacementLoading(false)
+      return
+    }
+
+    // Rebind the device to the replacement credential
+    const [updateDeviceError, updateDeviceResult] = await efwAsync(
+      addWallet({
+        pathData: {
+          deviceId,
+        },
+        body: {
+          xpub: replacement.xpub,
+          credentialId: replacement.credentialId,
+          token: writeToken,
+          authenticationResponse:
+            replacement.authenticationResponse as AnyObject,
+          deviceType: DEVICE_TYPE.YUBIKEY,
+          blobVersion: replacement.blobVersion,
+          hardenedKeyPathPurpose: device?.hardenedKeyPathPurpose,
+        },
+        token: jwt,
+      }),
+    )
+
+    // Handle errors from the server
+    if (updateDeviceError != null || updateDeviceResult.error != null) {
+      const error = parsePasskeyError({
+        message:
+          'Seed phrase cloned to replacement, but API call failed to update device',
+        error: updateDeviceError,
+        apiResult: updateDeviceResult,
+      })
+
+      setReplacementError(error)
+      setReplacementLoading(false)
+      return
+    }
+
+    setCredentialId(replacement.credentialId)
+    setReplacedCredentialId(replacement.credentialId)
+    setRetiredCredentialId(replacement.previousCredentialId)
+    setReplacementLoading(false)
+  }, [
+    jwt,
+    deviceId,
+    device,
+    network,
+    getSignOptions,
+    getCreateOptions,
+    addPasskey,
+    getAuthOptions,
+    addWallet,
+  ])
+
+  /**
+   * Clears the seed phrase from a YubiKey that is removed or replaced. After a replacement,
+   * only the retired credential may be wiped, so the replacement key cannot be cleared by
+   * mistake. Otherwise, the key currently linked to the device is wiped, which must be
+   * confirmed with `confirmActiveKey`.
+   */
+  const wipeYubikey = useCallback(
+    async (params?: { confirmActiveKey?: boolean }) => {
+      if (jwt == null || deviceId == null) {
+        setWipeError(
+          new PasskeyError(
+            'Attempted to wipe YubiKey before JWT and deviceId are available',
+            PasskeyErrorCodes.INCORRECT_STATE,
+          ),
+        )
+        return
+      }
+
+      setWipeError(null)
+      setWipeLoading(true)
+
+      // Get the authentication options to READ the blob to be wiped
+      const [readOptionsError, readOptionsResult] = await efwAsync(
+        retiredCredentialId != null
+          ? getAuthOptions({
+              body: {
+                credentialId: retiredCredentialId,
+              },
+              query: {
+                purpose: PASSKEY_PURPOSE,
+              },
+              token: jwt,
+            })
+          : getSignOptions({
+              query: {
+                deviceId: device?.id ?? deviceId,
+              },
+              token: jwt,
+            }),
+      )
+
+      // Handle errors from the server
+      if (readOptionsError != null || readOptionsResult.data == null) {
+        const error = parsePasskeyError({
+          message: 'Failed to get auth options to read blob for wipe',
+          apiResult: readOptionsResult,
+          error: readOptionsError,
+        })
+
+        setWipeError(error)
+        setWipeLoading(false)
+        return
+      }
+
+      // Get the authentication options to WRITE once the read identifies the credential
+      const getWriteOptions = async (credentialId: string) => {
+        const authOptionsResult = await getAuthOptions({
+          body: {
+            credentialId,
+          },
+          query: {
+            purpose: PASSKEY_PURPOSE,
+          },
+          token: jwt,
+        })
+
+        if (authOptionsResult.data == null) {
+          throw parsePasskeyError({
+            message: 'Failed to get auth options to wipe blob',
+            apiResult: authOptionsResult,
+          })
+        }
+
+        return authOptionsResult.data.options
+      }
+
+      const [wipePromptError, wipe] = await efwAsync(
+        passkeyDevice.wipeDevice({
+          authenticationOptions: readOptionsResult.data.options,
+          getWriteOptions,
+          retiredCredentialId: retiredCredentialId ?? undefined,
+          confirmActiveKey: params?.confirmActiveKey,
+        }),
+      )
+
+      // Handle errors from the passkey prompts
+      if (wipePromptError != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to wipe blob on passkey',
+          error: wipePromptError,
+        })
+
+        setWipeError(error)
+        setWipeLoading(false)
+        return
+      }
+
+      setWipedCredentialId(wipe.credentialId)
+      setWipeLoading(false)
+    },
+    [
+      jwt,
+      deviceId,
+      device,
+      retiredCredentialId,
+      getSignOptions,
+      getAuthOptions,
+    ],
+  )
 
   /**
    * Signs the health check message with the passkey, must be called once the xpub
@@ -514,7 +1378,7 @@ export function WebWalletProvider({
       return
     }
 
-    const { options } = authOptionsResult.data
+    const { options, prfSalt } = authOptionsResult.data
 
     // Get the wallet account for the signature
     const [walletAccountError, walletAccountResult] = await efwAsync(
@@ -554,7 +1418,12 @@ export function WebWalletProvider({
         keyPathCoinType: walletAccount.keyPathCoinType,
         keyPathAccount: walletAccount.keyPathAccount,
         message: signature.id,
+        // Set for multisig accounts, which sign a partial BIP322 signature
+        witnessScript: signature.witnessScript ?? undefined,
         authenticationOptions: options,
+        prfSalt,
+        passphrase: passphraseRef.current ?? undefined,
+        network,
       }),
     )
 
@@ -618,6 +1487,7 @@ export function WebWalletProvider({
     setSignatureLoading(false)
   }, [
     jwt,
+    network,
     getSignOptions,
     addSignedMessage,
     getWalletAccount,
@@ -637,7 +1507,8 @@ export function WebWalletProvider({
       return
     }
 
-    const { walletAccount, signature, toSign, isTestnet } = transactionInputs
+    const { walletAccount, signature, toSign, isTestnet, typedData } =
+      transactionInputs
 
     // Validate required inputs for signing a transaction
     if (walletAccount == null || signature == null || toSign == null) {
@@ -685,13 +1556,25 @@ export function WebWalletProvider({
       isTestnet,
     })
 
-    // Sign the transaction with the passkey
+    // Sign the transaction, or the typed data in its place, with the passkey
     const [signatureError, signatures] = await efwAsync(
-      passkeyDevice.signTransaction({
-        ...signParams,
-        device: PASSKEY_DEVICES.YUBIKEY,
-        authenticationOptions: authOptionsResult.data.options,
-      }),
+      typedData != null
+        ? passkeyDevice.signTypedData({
+            ...signParams,
+            typedData,
+            expectedChainId: getEthChainId(signParams.coin),
+            authenticationOptions: authOptionsResult.data.options,
+            prfSalt: authOptionsResult.data.prfSalt,
+            passphrase: passphraseRef.current ?? undefined,
+          })
+        : passkeyDevice.signTransaction({
+            ...signParams,
+            device: PASSKEY_DEVICES.YUBIKEY,
+            authenticationOptions: authOptionsResult.data.options,
+            prfSalt: authOptionsResult.data.prfSalt,
+            passphrase: passphraseRef.current ?? undefined,
+            masterFingerprint: device?.masterFingerprint ?? undefined,
+          }),
     )
 
     // Handle errors from the passkey signing in browser
@@ -709,9 +1592,7 @@ export function WebWalletProvider({
     const [submissionError, submissionResult] = await efwAsync(
       addSignedMessage({
         body: {
-          externalSignatures: Array.isArray(signatures)
-            ? signatures
-            : [signatures],
+          externalSignatures: getExternalSignatures(signatures),
           deviceType: PASSKEY_DEVICES.YUBIKEY,
         },
         pathData: { signatureId: signature.id },
@@ -754,16 +1635,364 @@ export function WebWalletProvider({
     setSignatureLoading(false)
   }, [
     jwt,
+    device,
     getSignOptions,
     addSignedMessage,
     transactionInputs,
     translateToString,
   ])
 
+  /**
+   * Signs several pending signatures, health checks and transactions, with a single read of
+   * the passkey. Inputs without `toSign` are health checks, and sign the signature ID as in
+   * `signHealthCheck`. Each signature is submitted on its own, and a failure is reported in
+   * its result in `batchResults`, without losing the others. Results are in the order of
+   * the batch.
+   */
+  const signBatch = useCallback(
+    async (batch: TransactionInputs[]) => {
+      if (jwt == null || deviceId == null) {
+        setBatchError(
+          new PasskeyError('missing JWT', PasskeyErrorCodes.UNAUTHORIZED),
+        )
+
+        return
+      }
+
+      setBatchLoading(true)
+      setBatchError(null)
+      setBatchResults(null)
+
+      // Get the authentication options for reading the blob once for the batch
+      const [signOptionsError, signOptionsResult] = await efwAsync(
+        getSignOptions({
+          query: {
+            deviceId: device?.id ?? deviceId,
+          },
+          token: jwt,
+        }),
+      )
+
+      // Handle errors from the server
+      if (signOptionsError != null || signOptionsResult.error != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to get auth options to read blob for batch',
+          apiResult: signOptionsResult,
+          error: signOptionsError,
+        })
+
+        setBatchError(error)
+        setBatchLoading(false)
+        return
+      }
+
+      const inputResults: BatchSignatureResult[] = []
+      const requests: BatchSignRequest[] = []
+
+      batch.forEach((inputs) => {
+        const { signature, walletAccount, toSign, isTestnet } = inputs
+
+        if (walletAccount == null) {
+          inputResults.push({
+            signatureId: signature.id,
+            error: new PasskeyError(
+              'Batch signature requires a walletAccount',
+              PasskeyErrorCodes.INCORRECT_STATE,
+            ),
+          })
+          return
+        }
+
+        if (toSign == null) {
+          const isEth = ETH_COIN_TYPES.includes(walletAccount.coinType)
+
+          requests.push({
+            kind: BatchSignKind.MESSAGE,
+            signatureId: signature.id,
+            params: {
+              coin: isEth ? 'ETH' : 'BTC',
+              keyPathPurpose: walletAccount.keyPathPurpose,
+              keyPathPurposeIsHardened: walletAccount.keyPathPurposeIsHardened,
+              keyPathCoinType: walletAccount.keyPathCoinType,
+              keyPathAccount: walletAccount.keyPathAccount,
+              message: signature.id,
+              witnessScript: signature.witnessScript ?? undefined,
+              network: resolveBitcoinNetwork({
+                network: inputs.network ?? device?.network,
+                isTestnet,
+              }),
+            },
+          })
+          return
+        }
+
+        const signParams = formatSignTxParams({
+          selectedDevice: DEVICE_TYPE.YUBIKEY,
+          walletAccount,
+          signature,
+          toSign,
+          token: jwt,
+          isTestnet,
+        })
+
+        // Typed data is signed in place of the transaction, as in `signTransaction`
+        if (inputs.typedData != null) {
+          requests.push({
+            kind: BatchSignKind.TYPED_DATA,
+            signatureId: signature.id,
+            params: {
+              ...signParams,
+              typedData: inputs.typedData,
+              expectedChainId: getEthChainId(signParams.coin),
+            },
+          })
+          return
+        }
+
+        requests.push({
+          kind: BatchSignKind.TRANSACTION,
+          signatureId: signature.id,
+          params: {
+            ...signParams,
+            device: PASSKEY_DEVICES.YUBIKEY,
+            masterFingerprint: device?.masterFingerprint ?? undefined,
+          },
+        })
+      })
+
+      // Nothing is left to sign, so the passkey is not prompted
+      if (requests.length === 0) {
+        setBatchResults(inputResults)
+        setBatchLoading(false)
+        return
+      }
+
+      const [batchSignError, signed] = await efwAsync(
+        passkeyDevice.signBatch({
+          requests,
+          authenticationOptions: signOptionsResult.data.options,
+          prfSalt: signOptionsResult.data.prfSalt,
+          passphrase: passphraseRef.current ?? undefined,
+        }),
+      )
+
+      // Handle errors from the passkey prompt, no signature was signed
+      if (batchSignError != null) {
+        const error = parsePasskeyError({
+          message: 'Failed to sign batch with passkey',
+          error: batchSignError,
+        })
+
+        setBatchError(error)
+        setBatchLoading(false)
+        return
+      }
+
+      // Each signature is submitted on its own, to `signatures/{signatureId}`
+      const submittedResults = await Promise.all(
+        signed.map(
+          async ({
+            signatureId,
+            signature: signatures,
+            error,
+          }): Promise<BatchSignatureResult> => {
+            if (signatures == null) {
+              return { signatureId, error }
+            }
+
+            const [submissionError, submissionResult] = await efwAsync(
+              addSignedMessage({
+                body: {
+                  externalSignatures: getExternalSignatures(signatures),
+                  deviceType: PASSKEY_DEVICES.YUBIKEY,
+                },
+                pathData: { signatureId },
+                token: jwt,
+              }),
+            )
+
+            if (
+              submissionError != null ||
+              submissionResult.data?.signedData == null
+            ) {
+              return {
+                signatureId,
+                error: parsePasskeyError({
+                  message: 'Signing successful, but failed to submit to server',
+                  apiResult: submissionResult,
+                  error: submissionError,
+                }),
+              }
+            }
+
+            return { signatureId, signedData: submissionResult.data.signedData }
+          },
+        ),
+      )
+
+      // Reported in the order of the batch, inputs that were not signed among the others
+      const resultsById = new Map(
+        [...inputResults, ...submittedResults].map((result) => [
+          result.signatureId,
+          result,
+        ]),
+      )
+
+      setBatchResults(
+        batch.map(({ signature }) => resultsById.get(signature.id)!),
+      )
+      setBatchLoading(false)
+    },
+    [jwt, deviceId, device, getSignOptions, addSignedMessage],
+  )
+
+  /**
+   * Summarizes the bitcoin transaction to be signed, so it can be reviewed before the passkey
+   * prompt. The seed is not available yet, so single signature outputs claiming the device's
+   * master fingerprint are flagged as unverified change, and signing fails if they do not
+   * pay to a key of the seed. Multisig change is verified against the cosigner xpubs.
+   * Safe transactions are decoded with the hash that is computed and checked when signing.
+   */
+  const reviewTransaction = useCallback(() => {
+    if (jwt == null || transactionInputs == null) {
+      setSignError(
+        new PasskeyError(
+          'Cannot review transaction without JWT and transaction inputs',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      return
+    }
+
+    const { walletAccount, signature, toSign, isTestnet, typedData } =
+      transactionInputs
+
+    if (walletAccount == null || signature == null || toSign == null) {
+      setSignError(
+        new PasskeyError(
+          'Transaction inputs require walletAccount, signature, and toSign data',
+          PasskeyErrorCodes.INCORRECT_STATE,
+        ),
+      )
+      return
+    }
+
+    const { psbt, safeAddress, coin } = formatSignTxParams({
+      selectedDevice: DEVICE_TYPE.YUBIKEY,
+      walletAccount,
+      signature,
+      toSign,
+      token: jwt,
+      isTestnet,
+    })
+
+    // Typed data is signed in place of the transaction, and reviewed field by field
+    if (typedData != null) {
+      try {
+        setTypedDataSummary(describeTypedData(typedData, getEthChainId(coin)))
+      } catch (reviewError) {
+        const error = parsePasskeyError({
+          message: 'Failed to describe typed data for review',
+          error: reviewError,
+        })
+
+        setSignError(error)
+      }
+
+      return
+    }
+
+    if (safeAddress != null) {
+      try {
+        setSafeTransactionSummary(
+          describeSafeTransaction({
+            toSign,
+            safeAddress,
+            chainId: getEthChainId(coin),
+          }),
+        )
+      } catch (reviewError) {
+        const error = parsePasskeyError({
+          message: 'Failed to describe Safe transaction for review',
+          error: reviewError,
+        })
+
+        setSignError(error)
+      }
+
+      return
+    }
+
+    // Only bitcoin transactions are described, other coins are signed without a summary
+    if (psbt == null) {
+      setTransactionSummary(null)
+      return
+    }
+
+    try {
+      const summary = describePsbt(psbt, {
+        network: getBitcoinjsNetwork(network),
+        masterFingerprint: device?.masterFingerprint ?? undefined,
+      })
+
+      setTransactionSummary(summary)
+    } catch (reviewError) {
+      const error = parsePasskeyError({
+        message: 'Failed to describe transaction for review',
+        error: reviewError,
+      })
+
+      setSignError(error)
+    }
+  }, [jwt, device, network, transactionInputs])
+
   const onConfirmPhrase = useCallback(() => {
     setPhraseConfirmed(true)
   }, [])
 
+  /**
+   * Splits the seed phrase read from the passkey into SLIP-39 shares, must be called once
+   * the seed phrase is available. Splitting is done locally, so the shares never leave
+   * the browser.
+   */
+  const splitPhrase = useCallback(
+    ({ threshold, shareCount }: { threshold: number; shareCount: number }) => {
+      if (phrase == null) {
+        setPhraseError(
+          new PasskeyError(
+            'Attempted to split seed phrase before it was read',
+            PasskeyErrorCodes.INCORRECT_STATE,
+          ),
+        )
+        return
+      }
+
+      try {
+        const splitShares = splitSeedPhrase({
+          seedPhrase: phrase.join(' '),
+          threshold,
+          shareCount,
+        })
+
+        setShares(splitShares.map((share) => share.split(' ')))
+        setVerifiedShareCount(0)
+      } catch (splitError) {
+        const error = parsePasskeyError({
+          message: 'Failed to split seed phrase into shares',
+          error: splitError,
+        })
+
+        setPhraseError(error)
+      }
+    },
+    [phrase],
+  )
+
+  // Each share is verified in turn, the count doubles as the index of the share to verify
+  const onConfirmShare = useCallback(() => {
+    setVerifiedShareCount((count) => count + 1)
+  }, [])
+
   return (
     <WebWalletContext.Provider
       value={{
@@ -779,18 +2008,54 @@ export function WebWalletProvider({
         deviceUpdateLoading,
         signatureLoading,
         credentialId,
+        backupCredentialId,
         resetErrors,
         isHealthCheck: Boolean(isHealthCheck),
         isTransaction: Boolean(isTransaction),
+        isImport: Boolean(isImport),
+        withBackupKey: Boolean(withBackupKey),
+        setImportPhrase,
+        hasImportPhrase,
         signTransaction,
+        reviewTransaction,
+        transactionSummary,
+        typedDataSummary,
+        safeTransactionSummary,
         signHealthCheck,
         signError,
         getSeedPhrase,
+        exportAccountXpubs,
+        accountsLoading,
+        accountsError,
+        accountXpubs,
+        signBatch,
+        batchLoading,
+        batchError,
+        batchResults,
         phrase,
         phraseLoading,
         phraseError,
         phraseConfirmed,
         onConfirmPhrase,
+        splitPhrase,
+        shares,
+        verifiedShareCount,
+        onConfirmShare,
+        setPassphrase,
+        hasPassphrase,
+        migrateBlob,
+        migrationLoading,
+        migrationError,
+        migratedBlobVersion,
+        replaceYubikey,
+        replacementLoading,
+        replacementError,
+        replacedCredentialId,
+        retiredCredentialId,
+        wipeYubikey,
+        wipeLoading,
+        wipeError,
+        wipedCredentialId,
       }}
     >
       {children}